@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import BaseExecutor from './BaseExecutor.js';
+import { ExecutorError } from './errors.js';
+import { estimateRequestTokens } from './contextWindow.js';
 import type { Manifest, ToolRouter, ProviderCredentials } from './types.js';
 
 // Test executor that implements abstract methods
@@ -224,7 +226,8 @@ describe('BaseExecutor', () => {
 
       const result = await executor.execute();
       expect(result.ok).toBe(false);
-      expect(result.error).toContain('Required variable missing: task');
+      expect(result.error?.code).toBe('VARIABLE_MISSING');
+      expect(result.error?.message).toContain('Required variable missing: task');
     });
 
     it('should not throw error if optional variable is missing', async () => {
@@ -253,7 +256,7 @@ describe('BaseExecutor', () => {
       // Should return error because no terminating tool was called, but not about missing variable
       const result = await executor.execute();
       expect(result.ok).toBe(false);
-      expect(result.error).toContain('Agent ended without calling terminating tool');
+      expect(result.error?.message).toContain('Agent ended without calling terminating tool');
     });
 
     it('should accept all variables when present', async () => {
@@ -286,6 +289,52 @@ describe('BaseExecutor', () => {
     });
   });
 
+  describe('variable types and defaults', () => {
+    it('should report all variable errors together', async () => {
+      const executor = new TestExecutor({
+        manifest: {
+          ...mockManifest,
+          variables: [
+            ...mockManifest.variables,
+            { name: 'count', type: 'number', required: true }
+          ]
+        },
+        variables: { assistantName: 'Claude', count: 'many' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials
+      });
+      executor.invoke = vi.fn();
+
+      const result = await executor.execute();
+
+      expect(executor.invoke).not.toHaveBeenCalled();
+      expect(result.error).toMatchObject({
+        code: 'VARIABLE_INVALID',
+        message: '[BaseExecutor] Required variable missing: task (string); Variable count must be a number, got string "many"'
+      });
+    });
+
+    it('should render defaults, coerced values and JSON', () => {
+      const executor = new TestExecutor({
+        manifest: {
+          ...mockManifest,
+          system: [{ name: 'main', content: 'Name: {assistantName}. Limit: {limit}. Filters: {filters}' }],
+          variables: [
+            { name: 'assistantName', type: 'string', required: true, default: 'Helper' },
+            { name: 'limit', type: 'number', required: true },
+            { name: 'filters', type: 'json', required: false }
+          ]
+        },
+        variables: { limit: '10', filters: { status: 'open', tags: ['a'] } },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials
+      });
+
+      expect(executor['instructions']).toBe('Name: Helper. Limit: 10. Filters: {"status":"open","tags":["a"]}');
+      expect(executor['variables'].limit).toBe(10);
+    });
+  });
+
   describe('template population', () => {
     it('should populate variables in system chunks', () => {
       const executor = new TestExecutor({
@@ -333,6 +382,55 @@ describe('BaseExecutor', () => {
 
       expect(executor['instructions']).toBe('Assistant Claude will help with coding.');
     });
+
+    it('should render template blocks after resolving block references', () => {
+      const executor = new TestExecutor({
+        manifest: {
+          ...mockManifest,
+          system: [
+            { name: 'main', content: '{component.intro}{#if task} Task: {task | upper}.{/if} Format: \\{component.intro\\}' }
+          ],
+          blocks: [{ name: 'intro', content: 'I am {assistantName}.' }]
+        },
+        variables: { assistantName: 'Claude', task: 'coding' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials
+      });
+
+      expect(executor['instructions']).toBe('I am Claude. Task: CODING. Format: {component.intro}');
+    });
+
+    it('should fail the execution with TEMPLATE_INVALID for a malformed template', async () => {
+      const create = (system: string, user: string) => {
+        const executor = new TestExecutor({
+          manifest: {
+            ...mockManifest,
+            system: [{ name: 'main', content: system }],
+            user: [{ name: 'main', content: user }]
+          },
+          variables: { assistantName: 'Claude', task: 'coding' },
+          toolRouter: mockToolRouter,
+          credentials: mockCredentials
+        });
+        executor.invoke = vi.fn();
+        return executor;
+      };
+
+      const systemError = create('{#if task}Task: {task}', 'Help');
+      const userError = create('You are {assistantName}.', '{:else}');
+
+      const systemResult = await systemError.execute();
+      const userResult = await userError.execute();
+
+      expect(systemResult.ok).toBe(false);
+      expect(systemResult.error).toMatchObject({
+        code: 'TEMPLATE_INVALID',
+        message: "[BaseExecutor] Invalid template in prompt 'test-prompt': [template] Unclosed {#if task}"
+      });
+      expect(userResult.error?.code).toBe('TEMPLATE_INVALID');
+      expect(systemError.invoke).not.toHaveBeenCalled();
+      expect(userError.invoke).not.toHaveBeenCalled();
+    });
   });
 
   describe('scenario tool handlers', () => {
@@ -472,152 +570,1933 @@ describe('BaseExecutor', () => {
     });
   });
 
-  describe('tool execution', () => {
-    it('should call tool from toolRouter', async () => {
+  describe('abort signal and timeouts', () => {
+    const toolCallResponse = {
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }]
+      },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    };
+
+    it('should forward the signal to invoke and abort the in-flight call', async () => {
+      const controller = new AbortController();
       const executor = new TestExecutor({
         manifest: mockManifest,
         variables: { assistantName: 'Claude', task: 'testing' },
         toolRouter: mockToolRouter,
-        credentials: mockCredentials
+        credentials: mockCredentials,
+        signal: controller.signal
       });
 
-      const toolCalls = [
-        {
-          id: 'call_1',
-          name: 'test_tool',
-          args: { input: 'test' }
+      let invokeSignal: AbortSignal | undefined;
+      executor.invoke = vi.fn().mockImplementation((_messages, options) => {
+        invokeSignal = options.signal;
+        setTimeout(() => controller.abort(), 10);
+        return new Promise(() => {}); // Never resolves
+      });
+
+      const result = await executor.execute();
+
+      expect(invokeSignal?.aborted).toBe(true);
+      expect(result.ok).toBe(false);
+      expect(result.status).toBe('cancelled');
+      expect(result.result).toEqual({ ok: false, status: 'cancelled' });
+      expect(result.messages).toHaveLength(2);
+    });
+
+    it('should time out and keep partial messages and usage', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        toolRouter: {
+          test_tool: {
+            execute: vi.fn().mockImplementation((_args, context) => new Promise((_resolve, reject) => {
+              context.signal.addEventListener('abort', () => reject(new Error('aborted')));
+            }))
+          }
+        },
+        timeoutMs: 20
+      });
+
+      executor.invoke = vi.fn().mockResolvedValue(toolCallResponse);
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(result.status).toBe('timeout');
+      expect(result.error).toEqual({
+        code: 'TIMEOUT',
+        message: '[BaseExecutor] Execution timed out',
+        retryable: false,
+        turn: 1
+      });
+      expect(result.usage.inputTokens).toBe(10);
+      expect(result.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant']);
+    });
+
+    it('should interrupt a tool that ignores the signal', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        toolRouter: {
+          test_tool: { execute: vi.fn().mockReturnValue(new Promise(() => {})) }
         }
-      ];
+      });
 
-      const results = await executor['handleToolCalls'](toolCalls);
+      executor.invoke = vi.fn().mockResolvedValue(toolCallResponse);
+      setTimeout(() => executor.cancel(), 10);
 
-      expect(mockToolRouter.test_tool.execute).toHaveBeenCalledWith({ input: 'test' });
-      expect(results).toHaveLength(1);
-      expect(results[0]).toEqual({
-        tool_call_id: 'call_1',
-        content: { success: true }
+      const result = await executor.execute();
+
+      expect(result.status).toBe('cancelled');
+      expect(executor['toolErrorCount'].test_tool).toBeUndefined();
+    });
+
+    it('should time out a single turn with turnTimeoutMs', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        turnTimeoutMs: 10
       });
+
+      executor.invoke = vi.fn().mockReturnValue(new Promise(() => {}));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(result.status).toBe('timeout');
     });
 
-    it('should return error for missing tool', async () => {
+    it('should report completed status on success', async () => {
       const executor = new TestExecutor({
         manifest: mockManifest,
         variables: { assistantName: 'Claude', task: 'testing' },
-        toolRouter: {},
-        credentials: mockCredentials
+        credentials: mockCredentials,
+        timeoutMs: 1000
       });
 
-      const toolCalls = [
-        {
-          id: 'call_1',
-          name: 'nonexistent_tool',
-          args: {}
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.status).toBe('completed');
+    });
+  });
+
+  describe('structured errors', () => {
+    it('should report TOOL_FAILED and keep the usage spent so far', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        toolRouter: {
+          test_tool: { execute: vi.fn().mockRejectedValue(new Error('Database down')) }
         }
-      ];
+      });
+      executor.invoke = vi.fn().mockResolvedValue({
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }]
+        },
+        usage: { input_tokens: 100, output_tokens: 20 }
+      });
 
-      const results = await executor['handleToolCalls'](toolCalls);
+      const result = await executor.execute();
 
-      expect(results).toHaveLength(1);
-      expect(results[0].content).toEqual({
-        completed: false,
-        error: true,
-        message: "Tool 'nonexistent_tool' not found"
+      expect(result.ok).toBe(false);
+      expect(result.status).toBe('failed');
+      expect(result.error).toEqual({
+        code: 'TOOL_FAILED',
+        message: "[BaseExecutor] Tool 'test_tool' failed 3 times: Database down",
+        retryable: false,
+        turn: 3
       });
+      expect(result.usage.inputTokens).toBe(300);
+      expect(result.usage.totalCostUSD).toBeGreaterThan(0);
     });
 
-    it('should handle tool errors gracefully', async () => {
-      const failingRouter = {
-        test_tool: {
-          execute: vi.fn().mockRejectedValue(new Error('Tool failed'))
-        }
-      };
+    it('should report MAX_MESSAGES_EXCEEDED', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        maxMessages: 4
+      });
+      executor.invoke = vi.fn().mockResolvedValue({
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }]
+        },
+        usage: { input_tokens: 10, output_tokens: 5 }
+      });
+
+      const result = await executor.execute();
+
+      expect(result.error?.code).toBe('MAX_MESSAGES_EXCEEDED');
+      expect(result.error?.turn).toBe(2);
+    });
 
+    it('should report NO_TERMINATING_TOOL', async () => {
       const executor = new TestExecutor({
         manifest: mockManifest,
         variables: { assistantName: 'Claude', task: 'testing' },
-        toolRouter: failingRouter,
+        toolRouter: mockToolRouter,
         credentials: mockCredentials
       });
 
-      const toolCalls = [
-        {
-          id: 'call_1',
-          name: 'test_tool',
-          args: { input: 'test' }
-        }
-      ];
+      const result = await executor.execute();
 
-      const results = await executor['handleToolCalls'](toolCalls);
+      expect(result.error).toMatchObject({ code: 'NO_TERMINATING_TOOL', turn: 1 });
+    });
 
-      expect(results).toHaveLength(1);
-      expect(results[0].content).toEqual({
-        completed: false,
-        error: true,
-        message: 'An error occurred while executing this tool. Please try a different approach.'
+    it('should report PROVIDER_AUTH with the provider', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials
+      });
+      executor.invoke = vi.fn().mockRejectedValue(Object.assign(new Error('Invalid API key'), { status: 401 }));
+
+      const result = await executor.execute();
+
+      expect(result.error).toEqual({
+        code: 'PROVIDER_AUTH',
+        message: 'Invalid API key',
+        provider: 'anthropic',
+        retryable: false,
+        turn: 1
       });
     });
 
-    it('should throw after 3 consecutive tool errors', async () => {
-      const failingRouter = {
-        test_tool: {
-          execute: vi.fn().mockRejectedValue(new Error('Tool failed'))
-        }
-      };
+    it('should report CANCELLED when cancelled', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials
+      });
+      executor.cancel();
+
+      const result = await executor.execute();
+
+      expect(result.error?.code).toBe('CANCELLED');
+    });
+  });
+
+  describe('budgets', () => {
+    const toolCallResponse = {
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }]
+      },
+      usage: { input_tokens: 1000, output_tokens: 100 }
+    };
+
+    it('should stop with BUDGET_EXCEEDED when maxTurns is reached', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        maxTurns: 2
+      });
+      executor.invoke = vi.fn().mockResolvedValue(toolCallResponse);
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toEqual({
+        code: 'BUDGET_EXCEEDED',
+        message: '[BaseExecutor] Budget exceeded: maxTurns is 2, execution used 2',
+        retryable: false,
+        turn: 2
+      });
+      expect(executor.invoke).toHaveBeenCalledTimes(2);
+      expect(result.turns).toHaveLength(2);
+      expect(result.usage.inputTokens).toBe(2000);
+      // Tool results of the last turn are kept
+      expect(result.messages[result.messages.length - 1].role).toBe('tool');
+    });
+
+    it('should stop when the cost budget is reached', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        maxCostUSD: 0.01 // Each turn costs $0.0045 with default pricing
+      });
+      executor.invoke = vi.fn().mockResolvedValue(toolCallResponse);
+
+      const result = await executor.execute();
+
+      expect(result.error?.code).toBe('BUDGET_EXCEEDED');
+      expect(result.error?.message).toContain('maxCostUSD');
+      expect(executor.invoke).toHaveBeenCalledTimes(3);
+      expect(result.usage.totalCostUSD).toBeCloseTo(0.0135);
+    });
+
+    it('should stop when a token budget is reached', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        maxOutputTokens: 100
+      });
+      executor.invoke = vi.fn().mockResolvedValue(toolCallResponse);
+
+      const result = await executor.execute();
+
+      expect(result.error?.message).toContain('maxOutputTokens is 100');
+      expect(executor.invoke).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still return the result when the last turn calls a terminating tool', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        maxTurns: 1
+      });
+      executor.invoke = vi.fn().mockResolvedValue({
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ id: 'call_1', name: 'finish_agent_run', args: { result: 'done' } }]
+        },
+        usage: { input_tokens: 10, output_tokens: 5 }
+      });
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toEqual({ result: 'done' });
+    });
+  });
+
+  describe('context window', () => {
+    const toolCall = (id: string) => ({
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id, name: 'test_tool', args: { input: 'test' } }]
+      },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    });
+    const finish = {
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id: 'call_finish', name: 'finish_agent_run', args: { result: 'done' } }]
+      },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    };
+
+    // Every tool call must be followed by its result
+    const expectPairedToolCalls = (messages: any[]) => {
+      messages.forEach((message, index) => {
+        for (const call of message.tool_calls || []) {
+          const result = messages.slice(index + 1).find(m => m.role === 'tool' && m.tool_call_id === call.id);
+          if (call.name !== 'finish_agent_run') expect(result).toBeDefined();
+        }
+        if (message.role === 'tool') {
+          const call = messages.slice(0, index).some(m => m.tool_calls?.some((c: any) => c.id === message.tool_call_id));
+          expect(call).toBe(true);
+        }
+      });
+    };
+
+    beforeEach(() => {
+      mockToolRouter.test_tool.execute = vi.fn(async () => ({ data: 'x'.repeat(4000) }));
+    });
+
+    it('should replace the oldest tool results when the request exceeds the window', async () => {
+      const sent: any[][] = [];
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        contextWindow: { strategy: 'drop-tool-results', maxTokens: 1500, reserveOutputTokens: 0, keepRecentMessages: 2 }
+      });
+      const responses = [toolCall('call_1'), toolCall('call_2'), finish];
+      executor.invoke = vi.fn(async (messages: any[]) => {
+        sent.push(JSON.parse(JSON.stringify(messages)));
+        return responses[sent.length - 1];
+      });
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      // Second turn fits; the third drops the first tool result and keeps the recent one
+      expect(sent[1][3].content).toContain('x'.repeat(100));
+      expect(sent[2]).toHaveLength(6);
+      expect(JSON.parse(sent[2][3].content)).toEqual({ removed: 'Tool result removed to fit the context window' });
+      expect(sent[2][3].tool_call_id).toBe('call_1');
+      expect(sent[2][5].content).toContain('x'.repeat(100));
+      expectPairedToolCalls(sent[2]);
+    });
+
+    it('should trim large tool outputs to valid JSON', async () => {
+      const sent: any[][] = [];
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        contextWindow: { strategy: 'trim-tool-outputs', maxTokens: 1500, reserveOutputTokens: 0, keepRecentMessages: 2, maxToolOutputTokens: 100 }
+      });
+      const responses = [toolCall('call_1'), toolCall('call_2'), finish];
+      executor.invoke = vi.fn(async (messages: any[]) => {
+        sent.push(JSON.parse(JSON.stringify(messages)));
+        return responses[sent.length - 1];
+      });
+
+      await executor.execute();
+
+      const trimmed = JSON.parse(sent[2][3].content);
+      expect(trimmed.truncated).toHaveLength(400);
+      expect(trimmed.omittedChars).toBe(JSON.stringify({ data: 'x'.repeat(4000) }).length - 400);
+    });
+
+    it('should summarize earlier turns and add the summary usage', async () => {
+      const sent: any[][] = [];
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        contextWindow: { strategy: 'summarize', maxTokens: 1500, reserveOutputTokens: 0, keepRecentMessages: 2 }
+      });
+      const responses = [toolCall('call_1'), toolCall('call_2'), finish];
+      executor.invoke = vi.fn(async (messages: any[], options: any) => {
+        if (!options.tools) {
+          expect(messages[1].content).toContain('assistant called test_tool({"input":"test"})');
+          return { message: { role: 'assistant', content: 'Called test_tool once.' }, usage: { input_tokens: 100, output_tokens: 20 } };
+        }
+        sent.push(JSON.parse(JSON.stringify(messages)));
+        return responses[sent.length - 1];
+      });
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(sent[2].map(m => m.role)).toEqual(['system', 'user', 'user', 'assistant', 'tool']);
+      expect(sent[2][2].content).toBe('Summary of the conversation so far:\nCalled test_tool once.');
+      expectPairedToolCalls(sent[2]);
+      expect(result.usage.inputTokens).toBe(130);
+      expect(result.usage.outputTokens).toBe(35);
+    });
+
+    it('should count summarized messages toward maxMessages', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        maxMessages: 8,
+        contextWindow: { strategy: 'summarize', maxTokens: 1500, reserveOutputTokens: 0, keepRecentMessages: 2 }
+      });
+      let turns = 0;
+      executor.invoke = vi.fn(async (messages: any[], options: any) => {
+        if (!options.tools) {
+          return { message: { role: 'assistant', content: 'Called test_tool.' }, usage: { input_tokens: 100, output_tokens: 20 } };
+        }
+        turns++;
+        return turns < 10 ? toolCall(`call_${turns}`) : finish;
+      });
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(result.error?.code).toBe('MAX_MESSAGES_EXCEEDED');
+      expect(turns).toBe(4);
+    });
+
+    it('should retry the summary call and run it through middleware', async () => {
+      const beforeInvoke = vi.fn();
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        retry: { initialDelayMs: 1 },
+        middleware: [{ name: 'spy', beforeInvoke }],
+        contextWindow: { strategy: 'summarize', maxTokens: 1500, reserveOutputTokens: 0, keepRecentMessages: 2 }
+      });
+      const responses = [toolCall('call_1'), toolCall('call_2'), finish];
+      let turn = 0;
+      let summaryAttempts = 0;
+      executor.invoke = vi.fn(async (_messages: any[], options: any) => {
+        if (!options.tools) {
+          if (++summaryAttempts === 1) {
+            throw Object.assign(new Error('Overloaded'), { status: 529 });
+          }
+          return { message: { role: 'assistant', content: 'Called test_tool once.' }, usage: { input_tokens: 100, output_tokens: 20 } };
+        }
+        return responses[turn++];
+      });
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(summaryAttempts).toBe(2);
+      expect(result.messages[2].content).toBe('Summary of the conversation so far:\nCalled test_tool once.');
+      // Three turns and the summary call
+      expect(beforeInvoke).toHaveBeenCalledTimes(4);
+      expect(beforeInvoke.mock.calls.some(([messages, options]) => !options.tools && messages[0].content.includes('Summarize'))).toBe(true);
+    });
+
+    it('should let middleware answer the summary call', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        middleware: [{
+          name: 'replay',
+          beforeInvoke: (_messages: any[], options: any) => options.tools
+            ? undefined
+            : { result: { message: { role: 'assistant' as const, content: 'Replayed summary.' }, usage: { input_tokens: 0, output_tokens: 0 } } }
+        }],
+        contextWindow: { strategy: 'summarize', maxTokens: 1500, reserveOutputTokens: 0, keepRecentMessages: 2 }
+      });
+      const responses = [toolCall('call_1'), toolCall('call_2'), finish];
+      let turn = 0;
+      executor.invoke = vi.fn(async () => responses[turn++]);
+
+      const result = await executor.execute();
+
+      expect(executor.invoke).toHaveBeenCalledTimes(3);
+      expect(result.messages[2].content).toBe('Summary of the conversation so far:\nReplayed summary.');
+    });
+
+    it('should run custom strategies', async () => {
+      const strategy = vi.fn((messages: any[]) => messages.filter(m => m.role !== 'user'));
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        contextWindow: { strategy, maxTokens: 10, reserveOutputTokens: 0 }
+      });
+
+      await executor.execute();
+
+      expect(strategy).toHaveBeenCalledWith(expect.any(Array), { limit: 10, estimateTokens: expect.any(Function) });
+      expect(executor['messages'].map(m => m.role)).toEqual(['system', 'assistant']);
+    });
+
+    it('should leave messages alone when the window is unknown', async () => {
+      const log = vi.fn();
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log,
+        contextWindow: { strategy: 'drop-tool-results' }
+      });
+      const responses = [toolCall('call_1'), toolCall('call_2'), finish];
+      let turn = 0;
+      executor.invoke = vi.fn(async () => responses[turn++]);
+
+      const result = await executor.execute();
+
+      expect(result.messages.filter(m => m.role === 'tool' && (m.content as string).includes('x'.repeat(4000)))).toHaveLength(2);
+      expect(log.mock.calls.filter(([message]) => message.includes('is unknown'))).toHaveLength(1);
+    });
+  });
+
+  describe('checkpoints', () => {
+    const toolCallResponse = {
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }]
+      },
+      usage: { input_tokens: 100, output_tokens: 10 }
+    };
+    const finishResponse = {
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id: 'call_2', name: 'finish_agent_run', args: { result: 'done' } }]
+      },
+      usage: { input_tokens: 100, output_tokens: 10 }
+    };
+
+    it('should checkpoint after every tool loop turn', async () => {
+      const onCheckpoint = vi.fn();
+      const checkpointStore = { save: vi.fn(), load: vi.fn(), delete: vi.fn() };
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        tracing: { enabled: false, etag: 'etag-1' },
+        executionId: 'exec-1',
+        checkpointStore,
+        onCheckpoint
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockResolvedValueOnce(finishResponse);
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.executionId).toBe('exec-1');
+      expect(onCheckpoint).toHaveBeenCalledTimes(2);
+      expect(checkpointStore.save).toHaveBeenCalledTimes(2);
+
+      const checkpoint = onCheckpoint.mock.calls[1][0];
+      expect(checkpoint).toMatchObject({
+        version: 1,
+        executionId: 'exec-1',
+        turn: 2,
+        etag: 'etag-1',
+        variables: { assistantName: 'Claude', task: 'testing' },
+        model: { provider: 'anthropic', name: 'claude-sonnet-4-5' },
+        usage: { inputTokens: 200, outputTokens: 20 },
+        toolErrorCount: {}
+      });
+      expect(checkpoint.messages).toHaveLength(6);
+      expect(checkpoint.messages[5].role).toBe('tool');
+      expect(checkpoint.turns).toHaveLength(2);
+
+      // Completed executions have nothing left to resume
+      expect(checkpointStore.delete).toHaveBeenCalledWith('exec-1');
+    });
+
+    it('should keep the checkpoint when the execution fails', async () => {
+      const checkpointStore = { save: vi.fn(), load: vi.fn(), delete: vi.fn() };
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        checkpointStore,
+        retry: false
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockRejectedValueOnce(Object.assign(new Error('Bad request'), { status: 400 }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(result.executionId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(checkpointStore.save).toHaveBeenCalledWith(result.executionId, expect.objectContaining({ turn: 1 }));
+      expect(checkpointStore.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the execution when saving a checkpoint fails', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        onCheckpoint: () => { throw new Error('disk full'); },
+        log: vi.fn()
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockResolvedValueOnce(finishResponse);
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should resume from a checkpoint with the next turn', async () => {
+      let checkpoint: any;
+      const toolRouter = {
+        ...mockToolRouter,
+        failing_tool: { execute: vi.fn().mockRejectedValue(new Error('boom')) }
+      };
+      const first = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter,
+        credentials: mockCredentials,
+        onCheckpoint: cp => { checkpoint = cp; },
+        retry: false
+      });
+      first.invoke = vi.fn()
+        .mockResolvedValueOnce({
+          ...toolCallResponse,
+          message: {
+            ...toolCallResponse.message,
+            tool_calls: [{ id: 'call_1', name: 'failing_tool', args: {} }]
+          }
+        })
+        .mockRejectedValueOnce(Object.assign(new Error('Bad request'), { status: 400 }));
+      await first.execute();
+
+      const resumed = new TestExecutor({
+        manifest: mockManifest,
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        resumeFrom: checkpoint
+      });
+      let sentMessages = 0;
+      resumed.invoke = vi.fn().mockImplementation(async (messages: any[]) => {
+        sentMessages = messages.length;
+        return finishResponse;
+      });
+
+      const result = await resumed.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toEqual({ result: 'done' });
+      expect(result.executionId).toBe(checkpoint.executionId);
+      expect(resumed.invoke).toHaveBeenCalledTimes(1);
+      expect(sentMessages).toBe(4); // System, user, tool call and its result
+      expect(result.usage.inputTokens).toBe(200);
+      expect(result.turns!.map(t => t.turn)).toEqual([1, 2]);
+      expect((resumed as any).toolErrorCount).toEqual({ failing_tool: 1 });
+    });
+  });
+
+  describe('tool approval', () => {
+    const refundCall = { id: 'call_1', name: 'issue_refund', args: { amount: 500 } };
+    const lookupCall = { id: 'call_2', name: 'test_tool', args: { input: 'order' } };
+    const finishResponse = {
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id: 'call_3', name: 'finish_agent_run', args: { result: 'done' } }]
+      },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    };
+
+    const createPausedExecutor = async (toolRouter: ToolRouter) => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter,
+        credentials: mockCredentials
+      });
+      executor.invoke = vi.fn().mockResolvedValue({
+        message: { role: 'assistant', content: '', tool_calls: [refundCall, lookupCall] },
+        usage: { input_tokens: 10, output_tokens: 5 }
+      });
+      return { executor, result: await executor.execute() };
+    };
+
+    const resume = async (checkpoint: any, toolRouter: ToolRouter, approvals: any[]) => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        toolRouter,
+        credentials: mockCredentials,
+        resumeFrom: checkpoint,
+        approvals
+      });
+      executor.invoke = vi.fn().mockResolvedValue(finishResponse);
+      return executor.execute();
+    };
+
+    it('should pause before running a turn with a call that requires approval', async () => {
+      const refund = { execute: vi.fn(async () => ({ refunded: true })), requiresApproval: true };
+      const { result } = await createPausedExecutor({ ...mockToolRouter, issue_refund: refund });
+
+      expect(result.ok).toBe(false);
+      expect(result.status).toBe('awaiting_approval');
+      expect(result.error).toBeUndefined();
+      expect(result.pendingApprovals).toEqual([refundCall]);
+      expect(result.checkpoint).toMatchObject({ awaitingApproval: true, turn: 1 });
+      expect(result.checkpoint!.executionId).toBe(result.executionId);
+      expect(refund.execute).not.toHaveBeenCalled();
+      expect(mockToolRouter.test_tool.execute).not.toHaveBeenCalled();
+    });
+
+    it('should run approved calls and continue the loop', async () => {
+      const refund = { execute: vi.fn(async () => ({ refunded: true })), requiresApproval: true };
+      const toolRouter = { ...mockToolRouter, issue_refund: refund };
+      const { result: paused } = await createPausedExecutor(toolRouter);
+
+      const result = await resume(paused.checkpoint, toolRouter, [{ toolCallId: 'call_1', decision: 'approve' }]);
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toEqual({ result: 'done' });
+      expect(refund.execute).toHaveBeenCalledWith({ amount: 500 }, expect.anything());
+      expect(mockToolRouter.test_tool.execute).toHaveBeenCalled();
+    });
+
+    it('should return a rejection to the model without running the tool', async () => {
+      const refund = { execute: vi.fn(), requiresApproval: true };
+      const toolRouter = { ...mockToolRouter, issue_refund: refund };
+      const { result: paused } = await createPausedExecutor(toolRouter);
+
+      const result = await resume(paused.checkpoint, toolRouter, [
+        { toolCallId: 'call_1', decision: 'reject', reason: 'Amount too high' }
+      ]);
+
+      expect(result.ok).toBe(true);
+      expect(refund.execute).not.toHaveBeenCalled();
+      const toolMessage = result.messages.find(m => m.tool_call_id === 'call_1');
+      expect(JSON.parse(toolMessage!.content as string).message).toContain('rejected this tool call: Amount too high');
+      expect(result.toolCalls!.find(c => c.id === 'call_1')!.status).toBe('rejected');
+    });
+
+    it('should run edited calls with the new args', async () => {
+      const refund = { execute: vi.fn(async () => ({ refunded: true })), requiresApproval: true };
+      const toolRouter = { ...mockToolRouter, issue_refund: refund };
+      const { result: paused } = await createPausedExecutor(toolRouter);
+
+      const result = await resume(paused.checkpoint, toolRouter, [
+        { toolCallId: 'call_1', decision: 'edit', args: { amount: 100 } }
+      ]);
+
+      expect(refund.execute).toHaveBeenCalledWith({ amount: 100 }, expect.anything());
+      const assistant = result.messages.find(m => m.tool_calls?.some(c => c.id === 'call_1'));
+      expect(assistant!.tool_calls![0].args).toEqual({ amount: 100 });
+    });
+
+    it('should resume one checkpoint twice with different decisions', async () => {
+      const refund = { execute: vi.fn(async () => ({ refunded: true })), requiresApproval: true };
+      const toolRouter = { ...mockToolRouter, issue_refund: refund };
+      const { result: paused } = await createPausedExecutor(toolRouter);
+
+      const edited = await resume(paused.checkpoint, toolRouter, [
+        { toolCallId: 'call_1', decision: 'edit', args: { amount: 100 } }
+      ]);
+      const approved = await resume(paused.checkpoint, toolRouter, [{ toolCallId: 'call_1', decision: 'approve' }]);
+
+      expect(refund.execute).toHaveBeenNthCalledWith(1, { amount: 100 }, expect.anything());
+      expect(refund.execute).toHaveBeenNthCalledWith(2, { amount: 500 }, expect.anything());
+      const findCall = (messages: any[]) => messages.find(m => m.tool_calls?.some((c: any) => c.id === 'call_1')).tool_calls[0];
+      expect(findCall(edited.messages).args).toEqual({ amount: 100 });
+      expect(findCall(approved.messages).args).toEqual({ amount: 500 });
+    });
+
+    it('should leave the checkpoint unchanged when resuming', async () => {
+      const refund = { execute: vi.fn(async () => ({ refunded: true })), requiresApproval: true };
+      const toolRouter = { ...mockToolRouter, issue_refund: refund };
+      const { result: paused } = await createPausedExecutor(toolRouter);
+      const before = structuredClone(paused.checkpoint);
+
+      await resume(paused.checkpoint, toolRouter, [{ toolCallId: 'call_1', decision: 'edit', args: { amount: 100 } }]);
+
+      expect(paused.checkpoint).toEqual(before);
+    });
+
+    it('should pause again when a decision is missing', async () => {
+      const refund = { execute: vi.fn(), requiresApproval: true };
+      const toolRouter = { ...mockToolRouter, issue_refund: refund };
+      const { result: paused } = await createPausedExecutor(toolRouter);
+
+      const result = await resume(paused.checkpoint, toolRouter, []);
+
+      expect(result.status).toBe('awaiting_approval');
+      expect(result.pendingApprovals).toEqual([refundCall]);
+    });
+
+    it('should honor requiresApproval from the manifest and per-call functions', async () => {
+      mockManifest.tools.push({
+        type: 'function',
+        function: { name: 'issue_refund', description: 'Refund', parameters: { type: 'object', properties: {} } },
+        requiresApproval: true
+      });
+      const { result: fromManifest } = await createPausedExecutor({
+        ...mockToolRouter,
+        issue_refund: { execute: vi.fn() }
+      });
+      expect(fromManifest.status).toBe('awaiting_approval');
+      mockManifest.tools.pop();
+
+      const { result: belowLimit } = await createPausedExecutor({
+        ...mockToolRouter,
+        issue_refund: { execute: vi.fn(), requiresApproval: (args: any) => args.amount > 1000 }
+      });
+      expect(belowLimit.status).not.toBe('awaiting_approval');
+    });
+
+    it('should not send requiresApproval to the provider', () => {
+      mockManifest.tools[0].requiresApproval = true;
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials
+      });
+
+      expect((executor as any).allToolDefs[0]).not.toHaveProperty('requiresApproval');
+    });
+  });
+
+  describe('execution timeline', () => {
+    it('should record tokens, cost, latency and finish reason per turn and a tool call timeline', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        toolRouter: {
+          test_tool: { execute: vi.fn().mockResolvedValue({ success: true }) },
+          lookup: { execute: vi.fn().mockRejectedValue(new Error('Lookup failed')) }
+        }
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce({
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { id: 'call_1', name: 'test_tool', args: { input: 'test' } },
+              { id: 'call_2', name: 'lookup', args: {} }
+            ]
+          },
+          usage: { input_tokens: 1000, output_tokens: 100 },
+          finishReason: 'tool_calls'
+        })
+        .mockResolvedValueOnce({
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ id: 'call_3', name: 'finish_agent_run', args: { result: 'done' } }]
+          },
+          usage: { input_tokens: 2000, output_tokens: 50 },
+          finishReason: 'tool_calls'
+        });
+
+      const result = await executor.execute();
+
+      expect(result.turns).toHaveLength(2);
+      expect(result.turns![0]).toMatchObject({
+        turn: 1,
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        inputTokens: 1000,
+        outputTokens: 100,
+        finishReason: 'tool_calls'
+      });
+      // Default pricing: $3/MTok input, $15/MTok output
+      expect(result.turns![0].costUSD).toBeCloseTo(0.0045);
+      expect(result.turns![0].latencyMs).toBeGreaterThanOrEqual(0);
+      expect(result.turns![0].costUSD + result.turns![1].costUSD).toBeCloseTo(result.usage.totalCostUSD);
+
+      expect(result.toolCalls).toEqual([
+        { turn: 1, id: 'call_1', name: 'test_tool', durationMs: expect.any(Number), status: 'success' },
+        { turn: 1, id: 'call_2', name: 'lookup', durationMs: expect.any(Number), status: 'error' },
+        { turn: 2, id: 'call_3', name: 'finish_agent_run', durationMs: expect.any(Number), status: 'success' }
+      ]);
+    });
+
+    it('should report cached tokens and bill them at the cache rates', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        toolRouter: mockToolRouter
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce({
+          message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }] },
+          usage: { input_tokens: 10000, output_tokens: 100, cache_read_input_tokens: 0, cache_creation_input_tokens: 8000 }
+        })
+        .mockResolvedValueOnce({
+          message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_2', name: 'finish_agent_run', args: { result: 'done' } }] },
+          usage: { input_tokens: 10500, output_tokens: 50, cache_read_input_tokens: 8000 }
+        });
+
+      const result = await executor.execute();
+
+      // Default pricing: $3/MTok input, cache writes at 125% ($3.75), cache reads at 10% ($0.30), $15/MTok output
+      expect(result.turns![0].costUSD).toBeCloseTo(0.006 + 0.03 + 0.0015);
+      expect(result.turns![0]).toMatchObject({ inputTokens: 10000, cacheCreationInputTokens: 8000 });
+      expect(result.turns![0].cacheReadInputTokens).toBeUndefined();
+      expect(result.turns![1].costUSD).toBeCloseTo(0.0075 + 0.0024 + 0.00075);
+      expect(result.usage).toEqual({
+        inputTokens: 20500,
+        outputTokens: 150,
+        totalCostUSD: expect.closeTo(0.0375 + 0.01065),
+        cacheReadInputTokens: 8000,
+        cacheCreationInputTokens: 8000
+      });
+    });
+
+    it('should bill cached tokens at the input rate for other providers', async () => {
+      const executor = new TestExecutor({
+        manifest: { ...mockManifest, models: [{ provider: 'openai', name: 'gpt-4o' }] },
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: { openai: { apiKey: 'test-key' } },
+        toolRouter: mockToolRouter
+      });
+      executor.invoke = vi.fn().mockResolvedValue({
+        message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'finish_agent_run', args: { result: 'done' } }] },
+        usage: { input_tokens: 10000, output_tokens: 100, cache_read_input_tokens: 8000 }
+      });
+
+      const result = await executor.execute();
+
+      // Default pricing: $3/MTok input for cached and uncached tokens, $15/MTok output
+      expect(result.turns![0].costUSD).toBeCloseTo(0.03 + 0.0015);
+      expect(result.usage.cacheReadInputTokens).toBe(8000);
+    });
+
+    it('should report reasoning tokens and keep reasoning in the messages', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        toolRouter: mockToolRouter
+      });
+      const reasoning = { text: 'The task is done.', provider: 'anthropic', blocks: [{ type: 'thinking', thinking: 'The task is done.', signature: 'sig' }] };
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce({
+          message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }] },
+          usage: { input_tokens: 100, output_tokens: 80, reasoning_tokens: 60 }
+        })
+        .mockResolvedValueOnce({
+          message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_2', name: 'finish_agent_run', args: { result: 'done' } }], reasoning },
+          usage: { input_tokens: 200, output_tokens: 30, reasoning_tokens: 10 }
+        });
+
+      const result = await executor.execute();
+
+      expect(result.usage).toMatchObject({ outputTokens: 110, reasoningTokens: 70 });
+      expect(result.turns!.map(turn => turn.reasoningTokens)).toEqual([60, 10]);
+      expect(result.messages.find(m => m.reasoning)?.reasoning).toEqual(reasoning);
+    });
+  });
+
+  describe('estimate', () => {
+    it('should estimate the first call from the rendered messages without invoking the model', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        toolRouter: mockToolRouter
+      });
+      executor.invoke = vi.fn();
+
+      const estimate = await executor.estimate();
+
+      const messages = executor['buildInitialMessages']();
+      const expectedInput = estimateRequestTokens(messages, executor['getAvailableTools']());
+      expect(executor.invoke).not.toHaveBeenCalled();
+      expect(estimate).toEqual({
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        inputTokens: Math.ceil(expectedInput * 1.15),
+        outputTokens: { min: 50, max: 4096 },
+        costUSD: {
+          min: executor['calculateCost'](estimate.inputTokens, 50),
+          max: executor['calculateCost'](estimate.inputTokens, 4096)
+        }
+      });
+      expect(estimate.costUSD.min).toBeLessThan(estimate.costUSD.max);
+    });
+
+    it('should count files and use the model max tokens', async () => {
+      mockManifest.models[0].metadata = { maxTokens: 1000 };
+      const create = (files?: any[]) => new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        files
+      });
+
+      const withoutFiles = await create().estimate();
+      const withImage = await create([{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }]).estimate();
+
+      expect(withImage.inputTokens - withoutFiles.inputTokens).toBeGreaterThanOrEqual(1500);
+      expect(withImage.outputTokens.max).toBe(1000);
+    });
+
+    it('should reject missing variables', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude' },
+        credentials: mockCredentials
+      });
+
+      await expect(executor.estimate()).rejects.toMatchObject({ code: 'VARIABLE_MISSING' });
+    });
+  });
+
+  describe('tool execution', () => {
+    it('should call tool from toolRouter', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials
+      });
+
+      const toolCalls = [
+        {
+          id: 'call_1',
+          name: 'test_tool',
+          args: { input: 'test' }
+        }
+      ];
+
+      const results = await executor['handleToolCalls'](toolCalls);
+
+      expect(mockToolRouter.test_tool.execute).toHaveBeenCalledWith(
+        { input: 'test' },
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+      expect(results).toHaveLength(1);
+      expect(results[0]).toEqual({
+        tool_call_id: 'call_1',
+        content: { success: true }
+      });
+    });
+
+    it('should give tools the calling execution and roll up nested usage', async () => {
+      const nested = vi.fn(async (_args: any, context: any) => {
+        context.execution.addUsage({ inputTokens: 100, outputTokens: 50, totalCostUSD: 0.5 });
+        return { success: true };
+      });
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: { test_tool: { execute: nested } },
+        credentials: mockCredentials,
+        executionId: 'exec-1',
+        depth: 1,
+        maxDepth: 2
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce({
+          message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }] },
+          usage: { input_tokens: 10, output_tokens: 5 }
+        })
+        .mockResolvedValueOnce({
+          message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_2', name: 'finish_agent_run', args: { result: 'done' } }] },
+          usage: { input_tokens: 10, output_tokens: 5 }
+        });
+
+      const result = await executor.execute();
+
+      expect(nested.mock.calls[0][1].execution).toMatchObject({ executionId: 'exec-1', promptName: 'test-prompt', depth: 1, maxDepth: 2 });
+      expect(result.usage.inputTokens).toBe(120);
+      expect(result.usage.outputTokens).toBe(60);
+      expect(result.usage.totalCostUSD).toBeGreaterThan(0.5);
+    });
+
+    it('should return error for missing tool', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: {},
+        credentials: mockCredentials
+      });
+
+      const toolCalls = [
+        {
+          id: 'call_1',
+          name: 'nonexistent_tool',
+          args: {}
+        }
+      ];
+
+      const results = await executor['handleToolCalls'](toolCalls);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].content).toEqual({
+        completed: false,
+        error: true,
+        message: "Tool 'nonexistent_tool' not found"
+      });
+    });
+
+    it('should handle tool errors gracefully', async () => {
+      const failingRouter = {
+        test_tool: {
+          execute: vi.fn().mockRejectedValue(new Error('Tool failed'))
+        }
+      };
+
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: failingRouter,
+        credentials: mockCredentials
+      });
+
+      const toolCalls = [
+        {
+          id: 'call_1',
+          name: 'test_tool',
+          args: { input: 'test' }
+        }
+      ];
+
+      const results = await executor['handleToolCalls'](toolCalls);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].content).toEqual({
+        completed: false,
+        error: true,
+        message: 'An error occurred while executing this tool. Please try a different approach.'
+      });
+    });
+
+    it('should throw after 3 consecutive tool errors', async () => {
+      const failingRouter = {
+        test_tool: {
+          execute: vi.fn().mockRejectedValue(new Error('Tool failed'))
+        }
+      };
+
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: failingRouter,
+        credentials: mockCredentials
+      });
+
+      const toolCalls = [
+        { id: 'call_1', name: 'test_tool', args: { input: 'test' } }
+      ];
+
+      // First call
+      await executor['handleToolCalls'](toolCalls);
+      expect(executor['toolErrorCount'].test_tool).toBe(1);
+
+      // Second call
+      await executor['handleToolCalls'](toolCalls);
+      expect(executor['toolErrorCount'].test_tool).toBe(2);
+
+      // Third call should throw
+      await expect(executor['handleToolCalls'](toolCalls)).rejects.toThrow('Tool failed');
+    });
+
+    it('should reset error count on successful tool call', async () => {
+      let callCount = 0;
+      const flakeyRouter = {
+        test_tool: {
+          execute: vi.fn().mockImplementation(async () => {
+            callCount++;
+            if (callCount === 1) throw new Error('First fail');
+            return { success: true };
+          })
+        }
+      };
+
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: flakeyRouter,
+        credentials: mockCredentials
+      });
+
+      const toolCalls = [
+        { id: 'call_1', name: 'test_tool', args: { input: 'test' } }
+      ];
+
+      // First call fails
+      await executor['handleToolCalls'](toolCalls);
+      expect(executor['toolErrorCount'].test_tool).toBe(1);
+
+      // Second call succeeds
+      const results = await executor['handleToolCalls'](toolCalls);
+      expect(executor['toolErrorCount'].test_tool).toBe(0);
+      expect(results[0].content).toEqual({ success: true });
+    });
+  });
+
+  describe('terminating tools and tool error policy', () => {
+    const callTool = (name: string, args: Record<string, any> = { input: 'test' }, id = `call_${name}`) => ({
+      message: { role: 'assistant' as const, content: '', tool_calls: [{ id, name, args }] },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    });
+
+    const submitTool = {
+      type: 'function',
+      function: {
+        name: 'submit',
+        description: 'Submit the answer',
+        parameters: { type: 'object', properties: { answer: { type: 'string' } }, required: ['answer'] }
+      }
+    };
+
+    it('should end the run with a configured terminating tool', async () => {
+      const executor = new TestExecutor({
+        manifest: { ...mockManifest, tools: [...mockManifest.tools, submitTool] },
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        terminatingTools: ['submit']
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(callTool('finish_agent_run', { result: 'not yet' }))
+        .mockResolvedValueOnce(callTool('submit', { answer: '42' }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toEqual({ answer: '42' });
+      // finish_agent_run is an ordinary (unrouted) tool now
+      expect(JSON.parse(result.messages[3].content as string).message).toBe("Tool 'finish_agent_run' not found");
+    });
+
+    it('should use the terminating tools and error policy of the manifest', async () => {
+      mockToolRouter.test_tool.execute = vi.fn(async () => { throw new Error('Connection refused'); });
+      const executor = new TestExecutor({
+        manifest: {
+          ...mockManifest,
+          tools: [...mockManifest.tools, submitTool],
+          terminatingTools: ['submit'],
+          toolErrorPolicy: { maxErrors: 5, exposeErrors: true }
+        },
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        toolErrorPolicy: { maxErrors: 1 }
+      });
+      executor.invoke = vi.fn().mockResolvedValueOnce(callTool('test_tool'));
+
+      const result = await executor.execute();
+
+      // maxErrors comes from the execution, the rest from the manifest
+      expect(executor['terminatingTools']).toEqual(['submit']);
+      expect(executor['toolErrorPolicy']).toEqual({ maxErrors: 1, exposeErrors: true, onMaxErrors: 'abort' });
+      expect(result.error).toMatchObject({
+        code: 'TOOL_FAILED',
+        message: "[BaseExecutor] Tool 'test_tool' failed 1 times: Connection refused"
+      });
+    });
+
+    it('should count errors per tool', async () => {
+      const toolRouter = {
+        test_tool: { execute: vi.fn(async () => { throw new Error('Connection refused'); }) },
+        other_tool: { execute: vi.fn(async () => { throw new Error('Timed out'); }) }
+      };
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        toolErrorPolicy: { maxErrors: 2 }
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(callTool('test_tool', { input: 'test' }, 'call_1'))
+        .mockResolvedValueOnce(callTool('other_tool', { input: 'test' }, 'call_2'))
+        .mockResolvedValueOnce(callTool('test_tool', { input: 'test' }, 'call_3'));
+
+      const result = await executor.execute();
+
+      // other_tool's failure doesn't count toward test_tool's limit
+      expect(executor['toolErrorCount']).toEqual({ test_tool: 2, other_tool: 1 });
+      expect(result.error).toMatchObject({
+        code: 'TOOL_FAILED',
+        message: "[BaseExecutor] Tool 'test_tool' failed 2 times: Connection refused"
+      });
+    });
+
+    it('should show the handler error to the model when exposeErrors is set', async () => {
+      mockToolRouter.test_tool.execute = vi.fn(async () => { throw new Error('Rate limited by CRM, retry in 5s'); });
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        toolErrorPolicy: { exposeErrors: true }
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(callTool('test_tool'))
+        .mockResolvedValueOnce(callTool('finish_agent_run', { result: 'done' }));
+
+      const result = await executor.execute();
+
+      expect(JSON.parse(result.messages[3].content as string)).toEqual({
+        completed: false,
+        error: true,
+        message: "Tool 'test_tool' failed: Rate limited by CRM, retry in 5s"
+      });
+    });
+
+    it('should remove a failing tool and continue when onMaxErrors is remove', async () => {
+      mockToolRouter.test_tool.execute = vi.fn(async () => { throw new Error('Service down'); });
+      const checkpoints: any[] = [];
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: () => {},
+        onCheckpoint: checkpoint => { checkpoints.push(checkpoint); },
+        toolErrorPolicy: { maxErrors: 2, onMaxErrors: 'remove' }
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(callTool('test_tool', { input: 'a' }, 'call_1'))
+        .mockResolvedValueOnce(callTool('test_tool', { input: 'b' }, 'call_2'))
+        .mockResolvedValueOnce(callTool('test_tool', { input: 'c' }, 'call_3'))
+        .mockResolvedValueOnce(callTool('finish_agent_run', { result: 'done without the tool' }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(mockToolRouter.test_tool.execute).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(result.messages[5].content as string).message).toBe(
+        'An error occurred while executing this tool. Please try a different approach. The tool failed 2 times and is no longer available. Continue without it.'
+      );
+      expect(JSON.parse(result.messages[7].content as string).message).toBe("Tool 'test_tool' is no longer available");
+
+      const offeredTools = (executor.invoke as any).mock.calls.map((call: any[]) => call[1].tools.map((t: any) => t.function.name));
+      expect(offeredTools[1]).toEqual(['test_tool', 'finish_agent_run']);
+      expect(offeredTools[2]).toEqual(['finish_agent_run']);
+      expect(checkpoints[checkpoints.length - 1].removedTools).toEqual(['test_tool']);
+    });
+  });
+
+  describe('tool argument validation', () => {
+    it('should return path errors to the model without calling the tool', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: vi.fn()
+      });
+
+      const results = await executor['handleToolCalls']([
+        { id: 'call_1', name: 'test_tool', args: { input: 42 } }
+      ]);
+
+      expect(mockToolRouter.test_tool.execute).not.toHaveBeenCalled();
+      expect(results[0].content).toEqual({
+        completed: false,
+        error: true,
+        message: "Invalid arguments for tool 'test_tool'. Fix these problems and call it again.",
+        validationErrors: ['$.input must be string, got number']
+      });
+    });
+
+    it('should not count validation errors toward the tool error limit', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: vi.fn()
+      });
+
+      for (let i = 0; i < 4; i++) {
+        await executor['handleToolCalls']([{ id: `call_${i}`, name: 'test_tool', args: {} }]);
+      }
+
+      expect(executor['toolErrorCount'].test_tool).toBeUndefined();
+      expect(executor['toolCalls'].map(c => c.status)).toEqual(['error', 'error', 'error', 'error']);
+    });
+
+    it('should skip validation when validateToolArgs is false', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        validateToolArgs: false
+      });
+
+      await executor['handleToolCalls']([{ id: 'call_1', name: 'test_tool', args: {} }]);
+
+      expect(mockToolRouter.test_tool.execute).toHaveBeenCalled();
+    });
+  });
+
+  describe('output validation', () => {
+    const finishCall = (id: string, args: Record<string, any>) => ({
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id, name: 'finish_agent_run', args }]
+      },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    });
+
+    beforeEach(() => {
+      mockManifest.tools[1].function.parameters = {
+        type: 'object',
+        properties: { summary: { type: 'string' }, score: { type: 'number' } },
+        required: ['summary', 'score']
+      };
+    });
+
+    it('should ask the model to fix invalid output and accept the corrected call', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        log: vi.fn()
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(finishCall('call_1', { summary: 'ok', score: 'high' }))
+        .mockResolvedValueOnce(finishCall('call_2', { summary: 'ok', score: 9 }));
+
+      const result = await executor.execute<{ summary: string; score: number }>();
+
+      expect(result.ok).toBe(true);
+      expect(result.result.score).toBe(9);
+
+      const correction = JSON.parse(result.messages.find(m => m.tool_call_id === 'call_1')!.content as string);
+      expect(correction.validationErrors).toEqual(['$.score must be number, got string']);
+
+      // The retry is forced onto the terminating tool
+      expect(vi.mocked(executor.invoke).mock.calls[1][1].tool_choice).toEqual({
+        type: 'function',
+        function: { name: 'finish_agent_run' }
+      });
+    });
+
+    it('should fail with OUTPUT_INVALID after maxOutputRepairs corrective retries', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        maxOutputRepairs: 1,
+        log: vi.fn()
+      });
+      executor.invoke = vi.fn().mockResolvedValue(finishCall('call_1', { summary: 'ok' }));
+
+      const result = await executor.execute();
+
+      expect(executor.invoke).toHaveBeenCalledTimes(2);
+      expect(result.ok).toBe(false);
+      expect(result.error).toMatchObject({
+        code: 'OUTPUT_INVALID',
+        message: "[BaseExecutor] Output of 'finish_agent_run' failed schema validation 2 times: $.score is required",
+        turn: 2
+      });
+    });
+
+    it('should not run a custom finish_agent_run handler with invalid output', async () => {
+      const finishHandler = { execute: vi.fn(async () => ({ completed: true })) };
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: { ...mockToolRouter, finish_agent_run: finishHandler },
+        credentials: mockCredentials,
+        log: vi.fn()
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(finishCall('call_1', {}))
+        .mockResolvedValueOnce(finishCall('call_2', { summary: 'ok', score: 1 }));
+
+      await executor.execute();
+
+      expect(finishHandler.execute).toHaveBeenCalledTimes(1);
+      expect(finishHandler.execute).toHaveBeenCalledWith({ summary: 'ok', score: 1 }, expect.anything());
+    });
+
+    it('should validate and repair the output without a tool router', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        log: vi.fn()
+      });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(finishCall('call_1', { summary: 'ok', score: 'high' }))
+        .mockResolvedValueOnce(finishCall('call_2', { summary: 'ok', score: 9 }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toEqual({ summary: 'ok', score: 9 });
+      const correction = JSON.parse(result.messages.find(m => m.tool_call_id === 'call_1')!.content as string);
+      expect(correction.validationErrors).toEqual(['$.score must be number, got string']);
+      expect(vi.mocked(executor.invoke).mock.calls[1][1].tool_choice).toEqual({
+        type: 'function',
+        function: { name: 'finish_agent_run' }
+      });
+    });
+
+    it('should fail with OUTPUT_INVALID without a tool router', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        maxOutputRepairs: 0,
+        log: vi.fn()
+      });
+      executor.invoke = vi.fn().mockResolvedValue(finishCall('call_1', { summary: 'ok' }));
+
+      const result = await executor.execute();
+
+      expect(executor.invoke).toHaveBeenCalledTimes(1);
+      expect(result.ok).toBe(false);
+      expect(result.result).toBeNull();
+      expect(result.error?.code).toBe('OUTPUT_INVALID');
+    });
+
+    it('should accept any output when validateOutput is false', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        validateOutput: false
+      });
+      executor.invoke = vi.fn().mockResolvedValue(finishCall('call_1', { summary: 'ok' }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toEqual({ summary: 'ok' });
+    });
+  });
+
+  describe('middleware', () => {
+    const toolCallResponse = {
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'secret' } }]
+      },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    };
+    const finishResponse = {
+      message: {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [{ id: 'call_2', name: 'finish_agent_run', args: { result: 'done' } }]
+      },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    };
+
+    const createExecutor = (middleware: any[]) => new TestExecutor({
+      manifest: mockManifest,
+      variables: { assistantName: 'Claude', task: 'testing' },
+      toolRouter: mockToolRouter,
+      credentials: mockCredentials,
+      log: () => {},
+      middleware
+    });
+
+    it('should run hooks in order around invoke and tools', async () => {
+      const calls: string[] = [];
+      const hooks = (name: string) => ({
+        beforeInvoke: () => { calls.push(`${name}.beforeInvoke`); },
+        afterInvoke: () => { calls.push(`${name}.afterInvoke`); },
+        beforeTool: (toolCall: any) => { calls.push(`${name}.beforeTool ${toolCall.name}`); },
+        afterTool: (toolCall: any) => { calls.push(`${name}.afterTool ${toolCall.name}`); }
+      });
+      const executor = createExecutor([hooks('a'), hooks('b')]);
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockResolvedValueOnce(finishResponse);
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(calls).toEqual([
+        'a.beforeInvoke', 'b.beforeInvoke', 'a.afterInvoke', 'b.afterInvoke',
+        'a.beforeTool test_tool', 'b.beforeTool test_tool', 'a.afterTool test_tool', 'b.afterTool test_tool',
+        'a.beforeInvoke', 'b.beforeInvoke', 'a.afterInvoke', 'b.afterInvoke',
+        'a.beforeTool finish_agent_run', 'b.beforeTool finish_agent_run', 'a.afterTool finish_agent_run', 'b.afterTool finish_agent_run'
+      ]);
+    });
+
+    it('should send replaced messages to the provider without changing the history', async () => {
+      const executor = createExecutor([{
+        beforeInvoke: (messages: any[]) => ({
+          messages: messages.map(m => (typeof m.content === 'string' ? { ...m, content: m.content.replace('testing', '[redacted]') } : m))
+        })
+      }]);
+      executor.invoke = vi.fn().mockResolvedValue(finishResponse);
+
+      const result = await executor.execute();
+
+      expect((executor.invoke as any).mock.calls[0][0][1].content).toBe('Help with: [redacted]');
+      expect(result.messages[1].content).toBe('Help with: testing');
+    });
+
+    it('should short-circuit invoke with a cached result', async () => {
+      const afterInvoke = vi.fn();
+      const executor = createExecutor([{ beforeInvoke: () => ({ result: finishResponse }), afterInvoke }]);
+      executor.invoke = vi.fn();
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toEqual({ result: 'done' });
+      expect(executor.invoke).not.toHaveBeenCalled();
+      expect(afterInvoke).toHaveBeenCalledWith(finishResponse, expect.objectContaining({ promptName: 'test-prompt', turn: 1 }));
+    });
+
+    it('should replace the result in afterInvoke', async () => {
+      const executor = createExecutor([{ afterInvoke: () => finishResponse }]);
+      executor.invoke = vi.fn().mockResolvedValue(toolCallResponse);
+
+      const result = await executor.execute();
+
+      expect(result.result).toEqual({ result: 'done' });
+      expect(mockToolRouter.test_tool.execute).not.toHaveBeenCalled();
+    });
+
+    it('should replace tool args and results', async () => {
+      const executor = createExecutor([{
+        beforeTool: (toolCall: any) => (toolCall.name === 'test_tool' ? { args: { input: 'safe' } } : undefined),
+        afterTool: (toolCall: any, result: any) => (toolCall.name === 'test_tool' ? { ...result, audited: true } : undefined)
+      }]);
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockResolvedValueOnce(finishResponse);
+
+      const result = await executor.execute();
+
+      expect(mockToolRouter.test_tool.execute).toHaveBeenCalledWith({ input: 'safe' }, expect.anything());
+      expect(result.messages[2].tool_calls![0].args).toEqual({ input: 'safe' });
+      expect(JSON.parse(result.messages[3].content as string)).toEqual({ success: true, audited: true });
+    });
+
+    it('should skip the tool with a short-circuit result', async () => {
+      const executor = createExecutor([{ beforeTool: () => ({ result: { cached: true } }) }]);
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockResolvedValueOnce(finishResponse);
+
+      const result = await executor.execute();
+
+      expect(mockToolRouter.test_tool.execute).not.toHaveBeenCalled();
+      expect(JSON.parse(result.messages[3].content as string)).toEqual({ cached: true });
+      // The execution result is still the terminating tool's args
+      expect(result.result).toEqual({ result: 'done' });
+    });
+
+    it('should veto tool calls', async () => {
+      const executor = createExecutor([{
+        beforeTool: (toolCall: any) => (toolCall.name === 'test_tool' ? { reject: 'input contains a secret' } : undefined)
+      }]);
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockResolvedValueOnce(finishResponse);
+
+      const result = await executor.execute();
+
+      expect(mockToolRouter.test_tool.execute).not.toHaveBeenCalled();
+      expect(JSON.parse(result.messages[3].content as string)).toEqual({
+        completed: false,
+        error: true,
+        message: 'This tool call was rejected: input contains a secret'
+      });
+      expect(result.toolCalls![0].status).toBe('rejected');
+    });
+
+    it('should fail the execution when a hook throws', async () => {
+      const executor = createExecutor([{
+        beforeInvoke: () => { throw new ExecutorError('BUDGET_EXCEEDED', '[guardrail] Daily limit reached'); }
+      }]);
+      executor.invoke = vi.fn();
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(result.error?.code).toBe('BUDGET_EXCEEDED');
+      expect(executor.invoke).not.toHaveBeenCalled();
+    });
+
+    it('should let onError recover from provider and tool errors', async () => {
+      mockToolRouter.test_tool.execute = vi.fn(async () => { throw new Error('Service down'); });
+      const onError = vi.fn((error: Error, context: any) => {
+        if (context.stage === 'tool') return { fallback: true, reason: error.message };
+        return finishResponse;
+      });
+      const executor = createExecutor([{ onError }]);
+      executor['retryPolicy'].maxAttempts = 1;
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce(toolCallResponse)
+        .mockRejectedValueOnce(Object.assign(new Error('Bad request'), { status: 400 }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(JSON.parse(result.messages[3].content as string)).toEqual({ fallback: true, reason: 'Service down' });
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ stage: 'tool', toolCall: expect.objectContaining({ id: 'call_1' }) }));
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'PROVIDER_ERROR' }), expect.objectContaining({ stage: 'invoke', turn: 2 }));
+      expect(result.result).toEqual({ result: 'done' });
+    });
+  });
+
+  describe('parallel tool execution', () => {
+    const createSlowRouter = (delays: Record<string, number>) => {
+      const state = { inFlight: 0, maxInFlight: 0, started: [] as string[] };
+      const router: ToolRouter = {
+        lookup: {
+          execute: vi.fn(async (args: any) => {
+            state.started.push(args.key);
+            state.inFlight++;
+            state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
+            await new Promise(resolve => setTimeout(resolve, delays[args.key]));
+            state.inFlight--;
+            return { value: args.key };
+          })
+        }
+      };
+      return { router, state };
+    };
+
+    const lookupCalls = [
+      { id: 'call_1', name: 'lookup', args: { key: 'a' } },
+      { id: 'call_2', name: 'lookup', args: { key: 'b' } },
+      { id: 'call_3', name: 'lookup', args: { key: 'c' } }
+    ];
+
+    it('should execute tool calls sequentially by default', async () => {
+      const { router, state } = createSlowRouter({ a: 5, b: 1, c: 1 });
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: router,
+        credentials: mockCredentials
+      });
+
+      await executor['handleToolCalls'](lookupCalls);
+
+      expect(state.maxInFlight).toBe(1);
+    });
+
+    it('should respect toolConcurrency and keep results in tool_calls order', async () => {
+      const { router, state } = createSlowRouter({ a: 20, b: 5, c: 1 });
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: router,
+        credentials: mockCredentials,
+        parallelToolCalls: true,
+        toolConcurrency: 2
+      });
+
+      const results = await executor['handleToolCalls'](lookupCalls);
+
+      expect(state.maxInFlight).toBe(2);
+      expect(results.map(r => r.tool_call_id)).toEqual(['call_1', 'call_2', 'call_3']);
+      expect(results.map(r => r.content.value)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should keep counting tool errors in parallel mode', async () => {
+      const failingRouter = {
+        test_tool: {
+          execute: vi.fn().mockRejectedValue(new Error('Tool failed'))
+        }
+      };
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: failingRouter,
+        credentials: mockCredentials,
+        parallelToolCalls: true
+      });
+
+      const results = await executor['handleToolCalls']([
+        { id: 'call_1', name: 'test_tool', args: { input: 'test' } },
+        { id: 'call_2', name: 'test_tool', args: { input: 'test' } }
+      ]);
+
+      expect(executor['toolErrorCount'].test_tool).toBe(2);
+      expect(results[0].content.error).toBe(true);
+      expect(results[1].content.error).toBe(true);
+
+      // Third error aborts
+      await expect(executor['handleToolCalls']([
+        { id: 'call_3', name: 'test_tool', args: { input: 'test' } },
+        { id: 'call_4', name: 'test_tool', args: { input: 'test' } }
+      ])).rejects.toThrow('Tool failed');
+    });
+  });
+
+  describe('userMessage', () => {
+    const textResponse = {
+      message: { role: 'assistant' as const, content: 'Hello!' },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    };
 
+    it('should add the chat message after the rendered user chunks', async () => {
       const executor = new TestExecutor({
         manifest: mockManifest,
         variables: { assistantName: 'Claude', task: 'testing' },
-        toolRouter: failingRouter,
-        credentials: mockCredentials
+        credentials: mockCredentials,
+        userMessage: 'Hi there'
       });
+      executor.invoke = vi.fn().mockResolvedValue(textResponse);
 
-      const toolCalls = [
-        { id: 'call_1', name: 'test_tool', args: {} }
-      ];
+      const result = await executor.execute();
 
-      // First call
-      await executor['handleToolCalls'](toolCalls);
-      expect(executor['toolErrorCount'].test_tool).toBe(1);
+      expect(result.messages[1]).toEqual({ role: 'user', content: 'Help with: testing\n\nHi there' });
+    });
 
-      // Second call
-      await executor['handleToolCalls'](toolCalls);
-      expect(executor['toolErrorCount'].test_tool).toBe(2);
+    it('should append the chat message with files when continuing messages', async () => {
+      const history = [
+        { role: 'system' as const, content: 'System' },
+        { role: 'user' as const, content: 'Hi' },
+        { role: 'assistant' as const, content: 'Hello!' }
+      ];
+      const files = [{ type: 'image_url', image_url: { url: 'https://example.com/cat.png' } }];
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        messages: history,
+        userMessage: 'What is this?',
+        files
+      });
+      executor.invoke = vi.fn().mockResolvedValue(textResponse);
 
-      // Third call should throw
-      await expect(executor['handleToolCalls'](toolCalls)).rejects.toThrow('Tool failed');
-    });
+      const result = await executor.execute();
 
-    it('should reset error count on successful tool call', async () => {
-      let callCount = 0;
-      const flakeyRouter = {
-        test_tool: {
-          execute: vi.fn().mockImplementation(async () => {
-            callCount++;
-            if (callCount === 1) throw new Error('First fail');
-            return { success: true };
-          })
-        }
-      };
+      expect(result.messages).toHaveLength(5);
+      expect(result.messages[3]).toEqual({
+        role: 'user',
+        content: [{ type: 'text', text: 'What is this?' }, ...files]
+      });
+      expect(history).toHaveLength(3); // Caller's array is not mutated
+    });
 
+    it('should not count a long chat history toward maxMessages', async () => {
+      const history: any[] = [{ role: 'system', content: 'System' }];
+      for (let i = 0; i < 30; i++) {
+        history.push({ role: 'user', content: `Message ${i}` }, { role: 'assistant', content: `Reply ${i}` });
+      }
       const executor = new TestExecutor({
         manifest: mockManifest,
         variables: { assistantName: 'Claude', task: 'testing' },
-        toolRouter: flakeyRouter,
-        credentials: mockCredentials
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        messages: history,
+        userMessage: 'One more thing',
+        maxMessages: 5
       });
+      executor.invoke = vi.fn()
+        .mockResolvedValueOnce({
+          message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }] },
+          usage: { input_tokens: 10, output_tokens: 5 }
+        })
+        .mockResolvedValue({
+          message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_2', name: 'finish_agent_run', args: { result: 'done' } }] },
+          usage: { input_tokens: 10, output_tokens: 5 }
+        });
 
-      const toolCalls = [
-        { id: 'call_1', name: 'test_tool', args: {} }
-      ];
-
-      // First call fails
-      await executor['handleToolCalls'](toolCalls);
-      expect(executor['toolErrorCount'].test_tool).toBe(1);
+      const result = await executor.execute();
 
-      // Second call succeeds
-      const results = await executor['handleToolCalls'](toolCalls);
-      expect(executor['toolErrorCount'].test_tool).toBe(0);
-      expect(results[0].content).toEqual({ success: true });
+      expect(result.ok).toBe(true);
+      expect(result.messages).toHaveLength(history.length + 5);
     });
   });
 
@@ -733,7 +2612,7 @@ describe('BaseExecutor', () => {
 
       const result = await executor.execute();
       expect(result.ok).toBe(false);
-      expect(result.error).toContain('Agent ended without calling terminating tool');
+      expect(result.error?.message).toContain('Agent ended without calling terminating tool');
     });
   });
 
@@ -1065,6 +2944,393 @@ describe('BaseExecutor', () => {
     });
   });
 
+  describe('model fallback', () => {
+    const finishResponse = (result: string) => ({
+      message: {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ id: 'call_1', name: 'finish_agent_run', args: { result } }]
+      },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    });
+
+    let manifestWithFallback: Manifest;
+    let fallbackInvoke: ReturnType<typeof vi.fn>;
+    let executorFactory: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      manifestWithFallback = {
+        ...mockManifest,
+        models: [
+          ...mockManifest.models,
+          { provider: 'openai', name: 'gpt-4o' }
+        ]
+      };
+
+      fallbackInvoke = vi.fn().mockResolvedValue(finishResponse('from fallback'));
+      executorFactory = vi.fn(async (config: any) => {
+        const fallback = new TestExecutor(config);
+        fallback.invoke = fallbackInvoke as any;
+        return fallback;
+      });
+    });
+
+    it('should retry the same turn on the next model when the primary fails', async () => {
+      const executor = new TestExecutor({
+        manifest: manifestWithFallback,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        executorFactory,
+        retry: false
+      });
+      executor.invoke = vi.fn().mockRejectedValue(Object.assign(new Error('Overloaded'), { status: 529 }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toEqual({ result: 'from fallback' });
+      expect(executorFactory).toHaveBeenCalledWith(expect.objectContaining({
+        model: manifestWithFallback.models[1]
+      }));
+      expect(fallbackInvoke.mock.calls[0][0]).toBe(executor['messages']);
+      expect(result.turns).toMatchObject([
+        { turn: 1, provider: 'openai', model: 'gpt-4o', fallback: true }
+      ]);
+    });
+
+    it('should keep using the fallback model for later turns', async () => {
+      const executor = new TestExecutor({
+        manifest: manifestWithFallback,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        executorFactory,
+        retry: false
+      });
+      const primaryInvoke = vi.fn().mockRejectedValue(Object.assign(new Error('Rate limited'), { status: 429 }));
+      executor.invoke = primaryInvoke;
+      fallbackInvoke
+        .mockResolvedValueOnce({
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }]
+          },
+          usage: { input_tokens: 10, output_tokens: 5 }
+        });
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(primaryInvoke).toHaveBeenCalledTimes(1);
+      expect(fallbackInvoke).toHaveBeenCalledTimes(2);
+      expect(result.turns?.map(t => t.model)).toEqual(['gpt-4o', 'gpt-4o']);
+    });
+
+    it('should not fall back on non-retryable errors', async () => {
+      const executor = new TestExecutor({
+        manifest: manifestWithFallback,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        executorFactory
+      });
+      executor.invoke = vi.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toEqual({
+        code: 'PROVIDER_ERROR',
+        message: 'Bad request',
+        provider: 'anthropic',
+        retryable: false,
+        turn: 1
+      });
+      expect(executorFactory).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back when modelFallback is false', async () => {
+      const executor = new TestExecutor({
+        manifest: manifestWithFallback,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        executorFactory,
+        modelFallback: false
+      });
+      executor.invoke = vi.fn().mockRejectedValue(Object.assign(new Error('Unauthorized'), { status: 401 }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(executorFactory).not.toHaveBeenCalled();
+    });
+
+    it('should record the primary model when no fallback was needed', async () => {
+      const executor = new TestExecutor({
+        manifest: manifestWithFallback,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials,
+        executorFactory
+      });
+      executor.invoke = vi.fn().mockResolvedValue(finishResponse('from primary'));
+
+      const result = await executor.execute();
+
+      expect(result.result).toEqual({ result: 'from primary' });
+      expect(result.model).toEqual({ provider: 'anthropic', name: 'claude-sonnet-4-5' });
+      expect(result.turns).toMatchObject([
+        { turn: 1, provider: 'anthropic', model: 'claude-sonnet-4-5', fallback: false }
+      ]);
+    });
+  });
+
+  describe('retry', () => {
+    const successResponse = {
+      message: { role: 'assistant' as const, content: 'Recovered', tool_calls: [] },
+      usage: { input_tokens: 10, output_tokens: 5 }
+    };
+
+    it('should retry transient errors and record the retries', async () => {
+      const log = vi.fn();
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        log,
+        retry: { initialDelayMs: 1, jitter: false }
+      });
+      executor.invoke = vi.fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Overloaded'), { status: 529 }))
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+        .mockResolvedValueOnce(successResponse);
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toBe('Recovered');
+      expect(executor.invoke).toHaveBeenCalledTimes(3);
+      expect(result.turns?.[0].retries).toBe(2);
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('attempt 1/3 failed (Overloaded), retrying in 1ms'));
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('attempt 2/3 failed (socket hang up), retrying in 2ms'));
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        retry: { initialDelayMs: 1 }
+      });
+      executor.invoke = vi.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(executor.invoke).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        retry: { maxAttempts: 2, initialDelayMs: 1 }
+      });
+      executor.invoke = vi.fn().mockRejectedValue(Object.assign(new Error('Rate limited'), { status: 429 }));
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toMatchObject({ code: 'PROVIDER_RATE_LIMIT', message: 'Rate limited', retryable: true });
+      expect(executor.invoke).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait for retry-after', async () => {
+      const log = vi.fn();
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        log
+      });
+      executor.invoke = vi.fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Rate limited'), {
+          status: 429,
+          headers: { 'retry-after-ms': '5' }
+        }))
+        .mockResolvedValueOnce(successResponse);
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('retrying in 5ms'));
+    });
+
+    it('should emit retry events while streaming', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        retry: { initialDelayMs: 1, jitter: false }
+      });
+      executor.invoke = vi.fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Overloaded'), { status: 529 }))
+        .mockResolvedValueOnce(successResponse);
+
+      const events: any[] = [];
+      for await (const event of executor.executeStream()) {
+        events.push(event);
+      }
+
+      expect(events).toContainEqual({ type: 'retry', turn: 1, attempt: 1, delayMs: 1, error: 'Overloaded' });
+    });
+
+    it('should stop waiting when cancelled', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials,
+        retry: { initialDelayMs: 60_000, jitter: false }
+      });
+      executor.invoke = vi.fn().mockRejectedValue(Object.assign(new Error('Overloaded'), { status: 529 }));
+      setTimeout(() => executor.cancel(), 10);
+
+      const result = await executor.execute();
+
+      expect(result.status).toBe('cancelled');
+      expect(executor.invoke).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('executeStream', () => {
+    it('should yield turn boundaries, deltas, tool results and the final result', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials
+      });
+
+      let invocationCount = 0;
+      vi.spyOn(executor, 'invoke').mockImplementation(async () => {
+        invocationCount++;
+
+        if (invocationCount === 1) {
+          return {
+            message: {
+              role: 'assistant',
+              content: 'Looking it up',
+              tool_calls: [
+                { id: 'call_1', name: 'test_tool', args: { input: 'test' } }
+              ]
+            },
+            usage: { input_tokens: 50, output_tokens: 25 }
+          };
+        }
+
+        return {
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { id: 'call_2', name: 'finish_agent_run', args: { result: 'done' } }
+            ]
+          },
+          usage: { input_tokens: 60, output_tokens: 30 }
+        };
+      });
+
+      const events: any[] = [];
+      for await (const event of executor.executeStream()) {
+        events.push(event);
+      }
+
+      expect(events.map(e => e.type)).toEqual([
+        'turn_start',
+        'text_delta',
+        'tool_call_start',
+        'tool_call_delta',
+        'turn_end',
+        'tool_result',
+        'turn_start',
+        'tool_call_start',
+        'tool_call_delta',
+        'turn_end',
+        'tool_result',
+        'result'
+      ]);
+      expect(events[1]).toEqual({ type: 'text_delta', turn: 1, text: 'Looking it up' });
+      expect(events[5]).toMatchObject({
+        type: 'tool_result',
+        turn: 1,
+        toolCall: { id: 'call_1', name: 'test_tool' },
+        content: { success: true }
+      });
+      expect(events[6]).toEqual({ type: 'turn_start', turn: 2 });
+
+      const final = events[events.length - 1];
+      expect(final.result.ok).toBe(true);
+      expect(final.result.result).toEqual({ result: 'done' });
+      expect(final.result.usage.inputTokens).toBe(110);
+    });
+
+    it('should use invokeStream when streaming', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        credentials: mockCredentials
+      });
+
+      const invokeStreamSpy = vi.spyOn(executor, 'invokeStream').mockImplementation(async (_messages, _options, onDelta) => {
+        onDelta({ type: 'text_delta', text: 'Hel' });
+        onDelta({ type: 'text_delta', text: 'lo' });
+        return {
+          message: { role: 'assistant', content: 'Hello', tool_calls: [] },
+          usage: { input_tokens: 10, output_tokens: 2 }
+        };
+      });
+
+      const texts: string[] = [];
+      let final: any;
+      for await (const event of executor.executeStream()) {
+        if (event.type === 'text_delta') texts.push(event.text);
+        if (event.type === 'result') final = event.result;
+      }
+
+      expect(invokeStreamSpy).toHaveBeenCalledTimes(1);
+      expect(texts).toEqual(['Hel', 'lo']);
+      expect(final.result).toBe('Hello');
+    });
+
+    it('should cancel the execution when the consumer stops iterating', async () => {
+      const executor = new TestExecutor({
+        manifest: mockManifest,
+        variables: { assistantName: 'Claude', task: 'testing' },
+        toolRouter: mockToolRouter,
+        credentials: mockCredentials
+      });
+
+      vi.spyOn(executor, 'invoke').mockResolvedValue({
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ id: 'call_1', name: 'test_tool', args: { input: 'test' } }]
+        },
+        usage: { input_tokens: 10, output_tokens: 5 }
+      });
+
+      for await (const event of executor.executeStream()) {
+        if (event.type === 'turn_start') break;
+      }
+
+      expect(executor['cancelled']).toBe(true);
+    });
+  });
+
   describe('normalizeToolChoice', () => {
     let executor: TestExecutor;
 
@@ -11,7 +11,12 @@
  * - Variable validation and template population
  * - Message building from manifest
  * - Tool call loop orchestration
- * - Dynamic model switching (future)
+ * - Model fallback across manifest.models
+ * - Cancellation and timeouts (AbortSignal)
+ * - Retry with backoff for transient provider errors
+ * - Cost and token budgets
+ * - Checkpoints and resume
+ * - Human approval of tool calls
  */
 
 import type {
@@ -25,25 +30,94 @@ import type {
   InvokeOptions,
   InvokeResult,
   ExecutionResult,
+  ExecutionStatus,
+  ExecutionError,
+  ExecutionErrorCode,
   Usage,
   ModelConfig,
   ToolRouter,
+  ToolHandler,
   ToolCallCallback,
   TracingConfig,
-  ModelPricing
+  ModelPricing,
+  StreamEvent,
+  StreamDeltaCallback,
+  TurnRecord,
+  ToolCallRecord,
+  RetryPolicy,
+  ErrorClassification,
+  ExecutionCheckpoint,
+  CheckpointStore,
+  ToolApprovalDecision,
+  ContextWindowConfig,
+  ExecutorMiddleware,
+  MiddlewareContext,
+  ToolErrorPolicy,
+  PromptCacheConfig,
+  ExecutionEstimate
 } from './types.js';
 import { sendTrace } from './tracing.js';
+import { AbortError, createChildAbort, getAbortReason, raceWithSignal } from './abort.js';
+import { resolveRetryPolicy, getRetryDelay, classifyHttpError, getErrorStatus, sleep } from './retry.js';
+import { ExecutorError, toExecutionError } from './errors.js';
+import { validateSchema } from './schemaValidation.js';
+import { resolveVariables } from './variables.js';
+import { renderTemplate } from './template.js';
+import { runBeforeInvoke, runAfterInvoke, runBeforeTool, runAfterTool, runOnError } from './middleware.js';
+import { toUsage, addUsage } from './usage.js';
+import { estimateRequestTokens, trimToolOutputs, dropToolResults, findSummaryRange, formatTranscript, messageText } from './contextWindow.js';
+
+/**
+ * Tools that end the tool loop by default - their args are the execution's result
+ */
+const TERMINATING_TOOLS = ['finish_agent_run', 'output'];
+
+/**
+ * Tool error policy defaults (see ToolErrorPolicy)
+ */
+const DEFAULT_TOOL_ERROR_POLICY: Required<ToolErrorPolicy> = {
+  maxErrors: 3,
+  exposeErrors: false,
+  onMaxErrors: 'abort'
+};
+
+/**
+ * Default cache rates as multiples of the input rate, when the model's pricing has none
+ * Anthropic bills cache writes above the input rate - other providers' cached tokens cost the input rate
+ */
+const CACHE_RATE_MULTIPLIERS: Record<string, { read: number; write: number }> = {
+  anthropic: { read: 0.1, write: 1.25 },
+  bedrock: { read: 0.1, write: 1.25 }
+};
+
+/**
+ * Lower bound of the output estimate - a short reply or a single tool call
+ */
+const MIN_OUTPUT_TOKENS = 50;
+
+/**
+ * Instructions for the model that summarizes earlier turns (contextWindow strategy 'summarize')
+ */
+const SUMMARY_INSTRUCTIONS = 'Summarize this conversation between an AI agent, its user and its tools so the agent can continue the task without it. Keep decisions, facts, tool results and open questions that still matter; drop small talk and repetition. Reply with the summary only.';
 
 export default class BaseExecutor {
   protected manifest: Manifest;
   protected variables: Record<string, any>;
+  protected variableErrors: string[];
+  protected templateError?: ExecutorError; // Malformed system template, reported when the execution starts
+  protected missingVariables: string[];
   protected toolRouter: ToolRouter;
   protected credentials: any;
   protected log: (message: string, ...args: any[]) => void;
   protected messages: Message[];
   protected onToolCall?: ToolCallCallback;
+  protected middleware: ExecutorMiddleware[];
   protected cancelled: boolean;
   protected toolErrorCount: Record<string, number>;
+  protected terminatingTools: string[];
+  protected toolErrorPolicy: Required<ToolErrorPolicy>;
+  protected removedTools: Set<string>;
+  protected promptCache?: Required<PromptCacheConfig>;
   protected forceNextTool?: string;
   protected executorFactory?: (config: BaseExecutorConfig) => Promise<any>;
   protected instructions: string;
@@ -55,32 +129,100 @@ export default class BaseExecutor {
   protected allToolDefs: ToolDefinition[];
   protected tracing?: TracingConfig;
   protected files?: Array<any>;
+  protected userMessage?: string;
   protected maxMessages: number;
+  protected historyLength: number; // Messages passed in as history - they don't count toward maxMessages
+  protected removedMessages: number; // This execution's messages removed by the context window - they still count
   protected studioApiClient?: any;
   protected modelPricing?: ModelPricing;
   protected pricingFetchPromise?: Promise<void>;
   protected initialToolChoice: 'auto' | 'required' | 'none' | string;
+  protected turnNumber: number;
+  protected streamListener?: (event: StreamEvent) => void;
+  protected config: BaseExecutorConfig;
+  protected usage: Usage;
+  protected turns: TurnRecord[];
+  protected toolCalls: ToolCallRecord[];
+  protected modelFallback: boolean;
+  protected activeModelIndex: number;
+  protected fallbackExecutors: Map<number, BaseExecutor | undefined>;
+  protected parallelToolCalls: boolean;
+  protected toolConcurrency: number;
+  protected abortController: AbortController;
+  protected signal?: AbortSignal;
+  protected timeoutMs?: number;
+  protected turnTimeoutMs?: number;
+  protected retryPolicy: Required<RetryPolicy>;
+  protected budgets: Pick<BaseExecutorConfig, 'maxCostUSD' | 'maxInputTokens' | 'maxOutputTokens' | 'maxTurns'>;
+  protected executionId?: string;
+  protected checkpointStore?: CheckpointStore;
+  protected onCheckpoint?: (checkpoint: ExecutionCheckpoint) => Promise<void> | void;
+  protected resumeFrom?: ExecutionCheckpoint;
+  protected approvalTools: Set<string>;
+  protected approvals: Map<string, ToolApprovalDecision>;
+  protected pendingApprovals?: ToolCall[];
+  protected validateToolArgs: boolean;
+  protected validateOutput: boolean;
+  protected maxOutputRepairs: number;
+  protected outputRepairs: number;
+  protected contextWindow?: ContextWindowConfig;
+  protected depth: number;
+  protected maxDepth: number;
+  protected contextWindowUnknown: boolean;
+  protected summaryExecutor?: BaseExecutor;
+
+  constructor(config: BaseExecutorConfig) {
+    const {
+      // Core execution
+      manifest,          // Agent manifest with systemMessage, userMessage, toolDefs, variables, models
+      variables = {},    // Runtime variables for template population
+      toolRouter,        // Tool implementations: { toolName: { execute: async (args) => result } }
+      credentials,       // Provider credentials: { anthropic: { apiKey }, ... }
+
+      // Optional
+      messages = [],     // Pre-built messages for continuation
+      userMessage,       // Chat message for this execution (ChatSession)
+      onToolCall,        // Callback after each tool call: async ({ toolCall, toolResponse }) => { abort: boolean }
+      middleware = [],   // Hooks around LLM calls and tool execution
+      log = console.log, // Logger function
+      tracing,           // Tracing configuration for observability
+      files,             // Files (images, audio) for vision/audio prompts
+      maxMessages = 50,  // Maximum messages before throwing error
+      studioApiClient,   // Optional Studio API client for fetching model pricing
+      initialToolChoice = 'required', // Initial tool choice for first turn
+      model,             // Model to run (default: manifest.models[0])
+      modelFallback = true, // Retry failed turns on the remaining manifest.models
+      parallelToolCalls = false, // Execute the tool calls of one turn concurrently
+      toolConcurrency = 4, // Maximum concurrent tool calls when parallelToolCalls is enabled
+      signal,            // External AbortSignal to cancel the execution
+      timeoutMs,         // Maximum duration of the whole execution
+      turnTimeoutMs,     // Maximum duration of a single LLM turn
+      retry,             // Retry policy for transient provider errors (false disables)
+      maxCostUSD,        // Cost budget
+      maxInputTokens,    // Input token budget
+      maxOutputTokens,   // Output token budget
+      maxTurns,          // Maximum LLM turns
+      executionId,       // Checkpoint key
+      checkpointStore,   // Where to save checkpoints after every turn
+      onCheckpoint,      // Callback with every checkpoint
+      resumeFrom,        // Checkpoint to continue from
+      approvals = [],    // Approval decisions for the checkpoint's pending tool calls
+      validateToolArgs = true, // Check tool args against the manifest schema before dispatch
+      validateOutput = true, // Check the terminating tool's args against its schema
+      maxOutputRepairs = 2, // Corrective retries for invalid terminating tool output
+      contextWindow,     // Strategies that keep the messages within the model's context window
+      terminatingTools,  // Tools that end the run (default: manifest.terminatingTools)
+      toolErrorPolicy,   // Handling of failing tools (merged over manifest.toolErrorPolicy)
+      promptCache,       // Prompt cache breakpoints (default: manifest.promptCache)
+      depth = 0,         // Nesting depth when run by a prompt tool
+      maxDepth = 3,      // Maximum nesting depth of prompt tools
+
+      // Internal (passed by factory for model switching)
+      executorFactory
+    } = config;
+
+    this.config = config;
 
-  constructor({
-    // Core execution
-    manifest,          // Agent manifest with systemMessage, userMessage, toolDefs, variables, models
-    variables = {},    // Runtime variables for template population
-    toolRouter,        // Tool implementations: { toolName: { execute: async (args) => result } }
-    credentials,       // Provider credentials: { anthropic: { apiKey }, ... }
-
-    // Optional
-    messages = [],     // Pre-built messages for continuation
-    onToolCall,        // Callback after each tool call: async ({ toolCall, toolResponse }) => { abort: boolean }
-    log = console.log, // Logger function
-    tracing,           // Tracing configuration for observability
-    files,             // Files (images, audio) for vision/audio prompts
-    maxMessages = 50,  // Maximum messages before throwing error
-    studioApiClient,   // Optional Studio API client for fetching model pricing
-    initialToolChoice = 'required', // Initial tool choice for first turn
-
-    // Internal (passed by factory for model switching)
-    executorFactory
-  }: BaseExecutorConfig) {
     // Manifest
     this.manifest = manifest;
     if (!this.manifest) {
@@ -90,41 +232,112 @@ export default class BaseExecutor {
     // Validate required manifest fields
     this.validateManifest();
 
-    // Variables
-    this.variables = variables;
+    // Variables (a resumed execution keeps the variables it started with)
+    // Defaults and coercion apply before anything is rendered; errors are reported by execute()
+    const resolved = resolveVariables(manifest.variables, resumeFrom ? resumeFrom.variables : variables);
+    this.variables = resolved.variables;
+    this.variableErrors = resolved.errors;
+    this.missingVariables = resolved.missing;
     this.toolRouter = toolRouter || {};
     this.credentials = credentials || {};
     this.log = log;
     this.files = files;
+    this.userMessage = userMessage;
     this.maxMessages = maxMessages;
     this.studioApiClient = studioApiClient;
     this.initialToolChoice = initialToolChoice;
+    this.parallelToolCalls = parallelToolCalls;
+    this.toolConcurrency = Math.max(1, toolConcurrency);
+    this.validateToolArgs = validateToolArgs;
+    this.validateOutput = validateOutput;
+    this.maxOutputRepairs = Math.max(0, maxOutputRepairs);
+    this.outputRepairs = 0;
+    this.contextWindow = contextWindow;
+    this.contextWindowUnknown = false;
+    this.depth = depth;
+    this.maxDepth = maxDepth;
+    this.terminatingTools = terminatingTools ?? manifest.terminatingTools ?? TERMINATING_TOOLS;
+    this.toolErrorPolicy = { ...DEFAULT_TOOL_ERROR_POLICY, ...manifest.toolErrorPolicy, ...toolErrorPolicy };
+    const cache = promptCache ?? manifest.promptCache;
+    this.promptCache = cache ? { system: true, tools: true, conversation: true, ...(cache === true ? {} : cache) } : undefined;
 
     // Messages
     this.messages = messages;
+    this.historyLength = messages.length;
+    this.removedMessages = 0;
 
     // Callbacks
     this.onToolCall = onToolCall;
+    this.middleware = middleware;
 
     // State
     this.cancelled = false;
     this.toolErrorCount = {};
+    this.removedTools = new Set();
     this.forceNextTool = undefined;
+    this.turnNumber = 0;
+    this.usage = { inputTokens: 0, outputTokens: 0, totalCostUSD: 0 };
+    this.turns = [];
+    this.toolCalls = [];
+
+    // Cancellation - aborting the controller interrupts in-flight provider calls and tools
+    this.abortController = new AbortController();
+    this.abortController.signal.addEventListener('abort', () => {
+      this.cancelled = true;
+    });
+    this.signal = signal;
+    this.timeoutMs = timeoutMs;
+    this.turnTimeoutMs = turnTimeoutMs;
+
+    // Retries (provider SDK retries are disabled so this policy is the only one)
+    this.retryPolicy = resolveRetryPolicy(retry);
+
+    // Budgets - checked by the tool loop before each new turn
+    this.budgets = { maxCostUSD, maxInputTokens, maxOutputTokens, maxTurns };
+
+    // Checkpoints - a resumed execution keeps the id of the checkpoint it continues
+    this.checkpointStore = checkpointStore;
+    this.onCheckpoint = onCheckpoint;
+    this.resumeFrom = resumeFrom;
+    this.executionId = executionId ?? resumeFrom?.executionId;
+    // Traces carry the id so nested executions can link to their parent
+    if (!this.executionId && (checkpointStore || onCheckpoint || tracing?.enabled)) {
+      this.executionId = globalThis.crypto.randomUUID();
+    }
+
+    // Human approval - manifest tools flagged requiresApproval, plus handlers that ask for it
+    this.approvalTools = new Set(
+      (manifest.tools || []).filter(tool => tool?.requiresApproval).map(tool => tool.function?.name)
+    );
+    this.approvals = new Map(approvals.map(decision => [decision.toolCallId, decision]));
 
     // Tracing
     this.tracing = tracing;
 
     // Executor factory for model switching
     this.executorFactory = executorFactory;
+    this.modelFallback = modelFallback;
+    this.activeModelIndex = 0;
+    this.fallbackExecutors = new Map();
 
     // Build system instructions from manifest
-    this.instructions = this.buildInstructions();
-
-    // Extract models
-    this.modelConfig = manifest.models;
+    // A malformed template fails the execution with TEMPLATE_INVALID instead of the constructor
+    try {
+      this.instructions = this.buildInstructions();
+    } catch (error) {
+      if (!(error instanceof ExecutorError)) throw error;
+      this.templateError = error;
+      this.instructions = '';
+    }
 
     // Primary model - store entire config for provider-specific params
-    this.primaryModelConfig = this.modelConfig[0];
+    this.primaryModelConfig = model || manifest.models[0];
+
+    // Fallback order: primary model first, then the remaining manifest models in order
+    this.modelConfig = [
+      this.primaryModelConfig,
+      ...manifest.models.filter(m => m !== this.primaryModelConfig)
+    ];
     this.provider = this.primaryModelConfig.provider;
     this.model = this.primaryModelConfig.name;
 
@@ -193,7 +406,7 @@ export default class BaseExecutor {
    * Render chunks into a single message, resolving block references and variables
    * Replaces {component.blockName} with block content from manifest.blocks
    * Supports nested blocks (blocks can reference other blocks)
-   * Replaces {variableName} with variable values
+   * Renders variables with the template language ({variableName}, {#if}, {#each}, filters)
    */
   protected renderChunks(chunks: any[], variables: Record<string, any> = {}): string {
     if (!chunks || chunks.length === 0) {
@@ -231,7 +444,8 @@ export default class BaseExecutor {
       return content; // Return content as-is
     }
 
-    return content.replace(/\{component\.([^}]+)\}/g, (match: string, blockName: string) => {
+    // Escaped references (\{component.x\}) are left for the template to render literally
+    return content.replace(/(?<!\\)\{component\.([^}]+)\}/g, (match: string, blockName: string) => {
       // Check for circular reference
       if (visitedBlocks.has(blockName)) {
         this.log(`[BaseExecutor] Circular block reference detected: ${blockName} at depth ${depth}`);
@@ -255,24 +469,76 @@ export default class BaseExecutor {
 
   /**
    * Populate template with variables
-   * Replaces {variable} placeholders
+   * Supports {variable}, dotted paths, filters, {#if}, {#each} and \{ escapes (see template.ts)
    */
   protected populateTemplate(template: string, variables: Record<string, any>): string {
-    if (!template) return '';
-
-    return template.replace(/\{([^}]+)\}/g, (match, key) => {
-      return variables[key] !== undefined ? variables[key] : match;
-    });
+    try {
+      return renderTemplate(template, variables);
+    } catch (error: any) {
+      throw new ExecutorError('TEMPLATE_INVALID', `[BaseExecutor] Invalid template in prompt '${this.manifest.name}': ${error.message}`, { cause: error });
+    }
   }
 
   /**
    * Cancel execution
+   * Aborts the in-flight provider call or tool; the run ends with status 'cancelled'
    */
   cancel(): boolean {
     this.cancelled = true;
+    if (!this.abortController.signal.aborted) {
+      this.abortController.abort(new AbortError('cancelled'));
+    }
     return true;
   }
 
+  /**
+   * Link the external signal and start the execution timeout
+   * Returns a cleanup function to call when the execution ends
+   */
+  protected attachAbortSources(): () => void {
+    const onExternalAbort = () => this.cancel();
+
+    if (this.signal?.aborted) {
+      this.cancel();
+    } else {
+      this.signal?.addEventListener('abort', onExternalAbort, { once: true });
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    if (this.timeoutMs !== undefined && this.timeoutMs > 0) {
+      timer = setTimeout(() => {
+        this.log(`[BaseExecutor] Execution timed out after ${this.timeoutMs}ms`);
+        this.abortController.abort(new AbortError('timeout'));
+      }, this.timeoutMs);
+    }
+
+    return () => {
+      this.signal?.removeEventListener('abort', onExternalAbort);
+      if (timer) clearTimeout(timer);
+    };
+  }
+
+  /**
+   * Structured error for a cancelled or timed out execution
+   */
+  protected toAbortError(status: ExecutionStatus): ExecutionError {
+    return toExecutionError(new AbortError(status === 'timeout' ? 'timeout' : 'cancelled'), {
+      turn: this.turnNumber || undefined
+    });
+  }
+
+  /**
+   * Status of a stopped execution: 'timeout' if a timeout fired, 'cancelled' otherwise
+   */
+  protected getAbortStatus(error?: any): ExecutionStatus {
+    if (error instanceof AbortError) {
+      return error.reason;
+    }
+    return this.abortController.signal.aborted
+      ? getAbortReason(this.abortController.signal)
+      : 'cancelled';
+  }
+
   /**
    * Convert tool choice string to OpenAI format
    * - 'auto' | 'required' | 'none' -> pass through
@@ -315,6 +581,9 @@ export default class BaseExecutor {
     // Clone to avoid mutating the original
     const processed = JSON.parse(JSON.stringify(tool));
 
+    // Executor-only metadata is not part of the provider tool format
+    delete processed.requiresApproval;
+
     // OpenAI format: tool.function.parameters
     if (processed.function?.parameters) {
       processed.function.parameters = this.processToolSchema(processed.function.parameters);
@@ -436,7 +705,10 @@ export default class BaseExecutor {
           name: modelInfo.modelId,
           inputTokensPer1M: modelInfo.pricing.inputTokensPer1M,
           outputTokensPer1M: modelInfo.pricing.outputTokensPer1M,
-          currency: modelInfo.pricing.currency
+          currency: modelInfo.pricing.currency,
+          contextWindow: modelInfo.contextWindow,
+          cacheReadTokensPer1M: modelInfo.pricing.cacheReadTokensPer1M,
+          cacheWriteTokensPer1M: modelInfo.pricing.cacheWriteTokensPer1M
         };
 
         // Cache the pricing
@@ -465,27 +737,37 @@ export default class BaseExecutor {
   /**
    * Calculate cost in USD based on tokens and model
    * Uses pricing from cache/API if available, otherwise falls back to default
+   * Cached tokens are part of inputTokens and billed at the cache rates instead
+   * (default: reads at 10% of the input rate, writes at 125%)
    */
-  protected calculateCost(inputTokens: number, outputTokens: number): number {
+  protected calculateCost(inputTokens: number, outputTokens: number, cacheReadTokens: number = 0, cacheCreationTokens: number = 0): number {
     // Use fetched/cached pricing if available
-    if (this.modelPricing) {
-      const inputCost = (inputTokens / 1_000_000) * this.modelPricing.inputTokensPer1M;
-      const outputCost = (outputTokens / 1_000_000) * this.modelPricing.outputTokensPer1M;
+    // Default rough pricing: Claude Sonnet, $3/MTok input, $15/MTok output
+    const inputRate = this.modelPricing?.inputTokensPer1M ?? 3;
+    const outputRate = this.modelPricing?.outputTokensPer1M ?? 15;
+
+    const uncachedTokens = Math.max(0, inputTokens - cacheReadTokens - cacheCreationTokens);
+    const inputCost = (uncachedTokens / 1_000_000) * inputRate;
+    const outputCost = (outputTokens / 1_000_000) * outputRate;
+    if (!cacheReadTokens && !cacheCreationTokens) {
       return inputCost + outputCost;
     }
 
-    // Default rough pricing
-    // Using Claude Sonnet pricing as default: $3/MTok input, $15/MTok output
-    const inputCost = (inputTokens / 1_000_000) * 3;
-    const outputCost = (outputTokens / 1_000_000) * 15;
-    return inputCost + outputCost;
+    const multipliers = CACHE_RATE_MULTIPLIERS[this.provider] ?? { read: 1, write: 1 };
+    const cacheReadCost = (cacheReadTokens / 1_000_000) * (this.modelPricing?.cacheReadTokensPer1M ?? inputRate * multipliers.read);
+    const cacheWriteCost = (cacheCreationTokens / 1_000_000) * (this.modelPricing?.cacheWriteTokensPer1M ?? inputRate * multipliers.write);
+    return inputCost + outputCost + cacheReadCost + cacheWriteCost;
   }
 
   /**
    * Main execution entry point
-   * Returns: { ok, usage: { inputTokens, outputTokens, totalCostUSD }, result, messages, error? }
+   * Returns: { ok, status, usage: { inputTokens, outputTokens, totalCostUSD }, result, messages, error? }
+   * Failed runs keep the usage spent so far and report a structured error ({ code, message, ... })
+   * T types result - the terminating tool's args, validated against its schema
    */
-  async execute(): Promise<ExecutionResult> {
+  async execute<T = any>(): Promise<ExecutionResult<T>> {
+    const detachAbortSources = this.attachAbortSources();
+
     try {
       // Validate variables
       this.validateVariables();
@@ -495,92 +777,695 @@ export default class BaseExecutor {
         await this.pricingFetchPromise;
       }
 
-      // Build initial messages if not provided
-      if (this.messages.length === 0) {
-        this.messages = this.buildInitialMessages();
-      }
-
-      // First LLM invocation
-      const turnStart = Date.now();
+      let output: any;
 
-      // Convert initialToolChoice to OpenAI format
-      // Provider adapters will translate to their specific format
-      const toolChoice = this.normalizeToolChoice(this.initialToolChoice);
+      if (this.resumeFrom) {
+        // Resumed execution - the checkpoint was taken between turns of the tool loop
+        this.restoreCheckpoint(this.resumeFrom);
+        this.log(`[BaseExecutor] Resuming execution ${this.executionId} after turn ${this.turnNumber}`);
 
-      const result = await this.invoke(this.messages, {
-        tools: this.allToolDefs,
-        tool_choice: toolChoice
-      });
-      const turnDuration = Date.now() - turnStart;
+        // Awaiting approval - run the pending tool calls of the last turn with the decisions
+        const message = this.resumeFrom.awaitingApproval
+          ? this.messages[this.messages.length - 1]
+          : await this.runNextTurn();
+        output = await this.runToolLoop(message);
+      } else {
+        // Build initial messages if not provided
+        // A chat message continues the provided messages as the next user turn
+        if (this.messages.length === 0) {
+          this.messages = this.buildInitialMessages();
+        } else if (this.userMessage !== undefined) {
+          this.messages = [...this.messages, this.buildUserMessage(this.userMessage)];
+        }
 
-      // Track usage
-      const usage: Usage = {
-        inputTokens: result.usage?.input_tokens || 0,
-        outputTokens: result.usage?.output_tokens || 0,
-        totalCostUSD: 0
-      };
-      usage.totalCostUSD = this.calculateCost(usage.inputTokens, usage.outputTokens);
+        // First LLM invocation
+        // Convert initialToolChoice to OpenAI format
+        // Provider adapters will translate to their specific format
+        const message = await this.runTurn(this.normalizeToolChoice(this.initialToolChoice));
 
-      // Add assistant message to stack
-      this.messages.push(result.message);
+        // Check if we need to process tool calls
+        const hasToolRouter = this.toolRouter && Object.keys(this.toolRouter).length > 0;
 
-      // Send trace for this turn
-      const turnCost = this.calculateCost(result.usage?.input_tokens || 0, result.usage?.output_tokens || 0);
-      await this.sendTurnTrace(result.usage || { input_tokens: 0, output_tokens: 0 }, turnDuration, turnCost);
+        // Check if any tool calls are built-in scenario tools (always execute these)
+        const builtInScenarioTools = ['fetch_available_scenarios', 'fetch_scenario_specific_instructions'];
+        const hasBuiltInScenarioTools = message.tool_calls?.some(tc => builtInScenarioTools.includes(tc.name)) || false;
 
-      // Check if we need to process tool calls
-      const hasToolRouter = this.toolRouter && Object.keys(this.toolRouter).length > 0;
+        if (hasToolRouter || hasBuiltInScenarioTools) {
+          // Run tool loop if: toolRouter provided (enforces terminating tool) OR built-in scenario tools
+          output = await this.runToolLoop(message);
+        } else if (message.tool_calls && message.tool_calls.length > 0) {
+          // No toolRouter but has tool calls - extract args from first tool call (playground mode)
+          output = await this.getPlaygroundOutput(message);
+        } else {
+          // No toolRouter and no tool calls - return raw content
+          output = message.content;
+        }
+      }
 
-      // Check if any tool calls are built-in scenario tools (always execute these)
-      const builtInScenarioTools = ['fetch_available_scenarios', 'fetch_scenario_specific_instructions'];
-      const hasBuiltInScenarioTools = result.message.tool_calls?.some(tc => builtInScenarioTools.includes(tc.name)) || false;
+      if (this.pendingApprovals) {
+        return {
+          ok: false,
+          status: 'awaiting_approval',
+          usage: this.usage,
+          result: output,
+          messages: this.messages,
+          model: { provider: this.provider, name: this.model },
+          turns: this.turns,
+          toolCalls: this.toolCalls,
+          executionId: this.executionId,
+          pendingApprovals: this.pendingApprovals,
+          checkpoint: this.createCheckpoint()
+        };
+      }
 
-      let output: any;
+      const status = this.cancelled ? this.getAbortStatus() : 'completed';
 
-      if (hasToolRouter || hasBuiltInScenarioTools) {
-        // Run tool loop if: toolRouter provided (enforces terminating tool) OR built-in scenario tools
-        output = await this.runToolLoop(result.message, usage);
-      } else if (result.message.tool_calls && result.message.tool_calls.length > 0) {
-        // No toolRouter but has tool calls - extract args from first tool call (playground mode)
-        output = result.message.tool_calls[0].args;
-      } else {
-        // No toolRouter and no tool calls - return raw content
-        output = result.message.content;
+      // Nothing left to resume once the execution completed
+      if (status === 'completed') {
+        await this.deleteCheckpoint();
       }
 
       return {
         ok: !this.cancelled,
-        usage,
+        status,
+        usage: this.usage,
         result: output,
-        messages: this.messages
+        messages: this.messages,
+        model: { provider: this.provider, name: this.model },
+        turns: this.turns,
+        toolCalls: this.toolCalls,
+        ...(this.executionId && { executionId: this.executionId }),
+        ...(this.cancelled && { error: this.toAbortError(status) })
       };
     } catch (error: any) {
+      // Cancelled or timed out - partial messages are returned with the result status
+      const aborted = error instanceof AbortError || this.abortController.signal.aborted;
+      const status = aborted ? this.getAbortStatus(error) : 'failed';
+
       return {
         ok: false,
-        usage: {
-          inputTokens: 0,
-          outputTokens: 0,
-          totalCostUSD: 0
-        },
-        result: null,
+        status,
+        usage: this.usage,
+        result: aborted ? { ok: false, status } : null, // Only meaningful when ok is true
         messages: this.messages,
-        error: error.message
+        model: { provider: this.provider, name: this.model },
+        turns: this.turns,
+        toolCalls: this.toolCalls,
+        ...(this.executionId && { executionId: this.executionId }),
+        error: aborted
+          ? this.toAbortError(status)
+          : toExecutionError(error, { turn: this.turnNumber || undefined })
       };
+    } finally {
+      detachAbortSources();
     }
   }
 
   /**
-   * Validate variables against manifest schema
+   * Streaming execution entry point
+   * Runs the same tool loop as execute(), yielding turn boundaries, text and
+   * tool-call deltas and tool results as they happen. The final event is
+   * { type: 'result', result } carrying the ExecutionResult.
+   * Breaking out of the iteration early cancels the execution.
    */
-  protected validateVariables(): void {
-    const schema = this.manifest.variables || [];
-    const required = schema.filter(v => v.required);
+  async *executeStream(): AsyncGenerator<StreamEvent, void, undefined> {
+    const queue: StreamEvent[] = [];
+    let notify: (() => void) | undefined;
+    let done = false;
+
+    this.streamListener = (event) => {
+      queue.push(event);
+      notify?.();
+    };
+
+    const execution = this.execute().then(result => {
+      queue.push({ type: 'result', result });
+      done = true;
+      notify?.();
+    });
+
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          yield queue.shift()!;
+          continue;
+        }
+        if (done) break;
+        await new Promise<void>(resolve => { notify = resolve; });
+        notify = undefined;
+      }
+    } finally {
+      if (!done) {
+        this.cancel();
+      }
+      this.streamListener = undefined;
+    }
+
+    await execution;
+  }
+
+  /**
+   * Estimate tokens and cost of the first LLM call without calling the model
+   * Renders the same messages as execute(); input tokens are estimated offline for the provider.
+   * Tool loops call the model again each turn with a growing history, so agents cost a multiple of this.
+   */
+  async estimate(): Promise<ExecutionEstimate> {
+    this.validateVariables();
+
+    if (this.pricingFetchPromise) {
+      await this.pricingFetchPromise;
+    }
+
+    let messages = this.messages;
+    if (messages.length === 0) {
+      messages = this.buildInitialMessages();
+    } else if (this.userMessage !== undefined) {
+      messages = [...messages, this.buildUserMessage(this.userMessage)];
+    }
+
+    const inputTokens = estimateRequestTokens(messages, this.getAvailableTools(), this.provider);
+    const outputTokens = { min: MIN_OUTPUT_TOKENS, max: this.getMaxOutputTokens() };
+
+    return {
+      provider: this.provider,
+      model: this.model,
+      inputTokens,
+      outputTokens,
+      costUSD: {
+        min: this.calculateCost(inputTokens, outputTokens.min),
+        max: this.calculateCost(inputTokens, outputTokens.max)
+      }
+    };
+  }
+
+  /**
+   * Max output tokens per call from the model config (default: 4096, the adapters' default)
+   */
+  protected getMaxOutputTokens(): number {
+    const metadata = this.primaryModelConfig.metadata || {};
+    return metadata.maxTokens || metadata.max_tokens || metadata.maxOutputTokens || metadata.max_completion_tokens || 4096;
+  }
+
+  /**
+   * Emit a stream event (no-op unless running under executeStream)
+   */
+  protected emit(event: StreamEvent): void {
+    this.streamListener?.(event);
+  }
+
+  /**
+   * Run one LLM turn: invoke the model, track usage, record the turn,
+   * append the assistant message and send the turn trace
+   */
+  protected async runTurn(toolChoice: InvokeOptions['tool_choice']): Promise<Message> {
+    await this.manageContextWindow();
+
+    const turnStart = Date.now();
+    const { result, servedBy, retries } = await this.invokeModel({
+      tools: this.getAvailableTools(),
+      tool_choice: toolChoice
+    });
+    const turnDuration = Date.now() - turnStart;
+
+    // Cost is calculated with the pricing of the model that served the turn
+    const turnUsage = result.usage || { input_tokens: 0, output_tokens: 0 };
+    const cacheReadTokens = turnUsage.cache_read_input_tokens || 0;
+    const cacheCreationTokens = turnUsage.cache_creation_input_tokens || 0;
+    const turnCost = servedBy.calculateCost(turnUsage.input_tokens, turnUsage.output_tokens, cacheReadTokens, cacheCreationTokens);
+
+    // Track usage
+    addUsage(this.usage, toUsage(turnUsage, turnCost));
+
+    this.turns.push({
+      turn: this.turnNumber,
+      provider: servedBy.provider,
+      model: servedBy.model,
+      fallback: servedBy !== this,
+      ...(retries > 0 && { retries }),
+      inputTokens: turnUsage.input_tokens,
+      outputTokens: turnUsage.output_tokens,
+      ...(cacheReadTokens > 0 && { cacheReadInputTokens: cacheReadTokens }),
+      ...(cacheCreationTokens > 0 && { cacheCreationInputTokens: cacheCreationTokens }),
+      ...(turnUsage.reasoning_tokens && { reasoningTokens: turnUsage.reasoning_tokens }),
+      costUSD: turnCost,
+      latencyMs: turnDuration,
+      finishReason: result.finishReason
+    });
+
+    // Add assistant message to stack
+    this.messages.push(result.message);
+
+    // Send trace for this turn
+    await this.sendTurnTrace(turnUsage, turnDuration, turnCost, servedBy.primaryModelConfig, retries);
+
+    return result.message;
+  }
+
+  /**
+   * Shrink the messages before a turn when the request would exceed the context window
+   * Runs the configured strategies in order until the estimate fits. The changes stay
+   * in this.messages, so they are part of the result, checkpoints and chat history.
+   */
+  protected async manageContextWindow(): Promise<void> {
+    if (!this.contextWindow) {
+      return;
+    }
+
+    const limit = await this.getContextLimit();
+    if (!limit) {
+      return;
+    }
+
+    // Same estimate as estimate(): the tools sent this turn, adjusted for the provider's tokenizer
+    const tools = this.getAvailableTools();
+    const estimate = (messages: Message[]) => estimateRequestTokens(messages, tools, this.provider);
+    const initialTokens = estimate(this.messages);
+    if (initialTokens <= limit) {
+      return;
+    }
+
+    const {
+      strategy = ['trim-tool-outputs', 'drop-tool-results'],
+      keepRecentMessages = 6,
+      maxToolOutputTokens = 1000
+    } = this.contextWindow;
+    const strategies = Array.isArray(strategy) ? strategy : [strategy];
+
+    const initialLength = this.messages.length;
+    let tokens = initialTokens;
+    for (const current of strategies) {
+      if (tokens <= limit) break;
+
+      let messages: Message[];
+      if (typeof current === 'function') {
+        messages = await current([...this.messages], { limit, estimateTokens: estimate });
+      } else if (current === 'trim-tool-outputs') {
+        messages = trimToolOutputs(this.messages, limit, { keepRecent: keepRecentMessages, maxTokens: maxToolOutputTokens, tools, provider: this.provider });
+      } else if (current === 'drop-tool-results') {
+        messages = dropToolResults(this.messages, limit, { keepRecent: keepRecentMessages, tools, provider: this.provider });
+      } else if (current === 'summarize') {
+        messages = await this.summarizeMessages(keepRecentMessages);
+      } else {
+        throw new Error(`[BaseExecutor] Unknown context window strategy: ${current}`);
+      }
 
-    for (const varDef of required) {
-      if (this.variables[varDef.name] === undefined) {
-        throw new Error(`[BaseExecutor] Required variable missing: ${varDef.name}`);
+      // Keep the same array - it may be shared with the caller, like the pushes in the tool loop
+      this.messages.splice(0, this.messages.length, ...messages);
+      tokens = estimate(this.messages);
+    }
+
+    // Keep the maxMessages count - the strategies drop the oldest messages, history before this execution's
+    const removed = initialLength - this.messages.length;
+    if (removed > 0) {
+      const fromHistory = Math.min(removed, this.historyLength);
+      this.historyLength -= fromHistory;
+      this.removedMessages += removed - fromHistory;
+    }
+
+    this.log(`[BaseExecutor] Context window: reduced request from ~${initialTokens} to ~${tokens} tokens (limit ${limit})`);
+    if (tokens > limit) {
+      this.log(`[BaseExecutor] Context window: request still exceeds the limit after all strategies`);
+    }
+  }
+
+  /**
+   * Input token limit for the next turn: the context window minus the tokens reserved for the response
+   * Uses contextWindow.maxTokens, otherwise the serving model's contextWindow from the Studio API.
+   */
+  protected async getContextLimit(): Promise<number | undefined> {
+    const { maxTokens, reserveOutputTokens = 4096 } = this.contextWindow || {};
+
+    let window = maxTokens;
+    if (window === undefined) {
+      if (this.pricingFetchPromise) {
+        await this.pricingFetchPromise;
+      }
+      const executor = await this.getModelExecutor(this.activeModelIndex);
+      window = executor?.modelPricing?.contextWindow;
+    }
+
+    if (!window) {
+      if (!this.contextWindowUnknown) {
+        this.contextWindowUnknown = true;
+        this.log(`[BaseExecutor] Context window of ${this.provider}/${this.model} is unknown, set contextWindow.maxTokens to manage it`);
+      }
+      return undefined;
+    }
+
+    return Math.max(0, window - reserveOutputTokens);
+  }
+
+  /**
+   * Replace earlier turns with a summary written by contextWindow.summaryModel (or the serving model)
+   * The summary call goes through middleware, the retry policy and the turn timeout like a turn.
+   * Its tokens and cost are added to the execution's usage. Returns the messages unchanged
+   * when there is nothing to summarize or the summary call fails.
+   */
+  protected async summarizeMessages(keepRecent: number): Promise<Message[]> {
+    const range = findSummaryRange(this.messages, keepRecent);
+    if (!range) {
+      return this.messages;
+    }
+
+    const signal = this.abortController.signal;
+    try {
+      const executor = await this.getSummaryExecutor();
+      const result = await this.invokeSummary(executor, [
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
+        { role: 'user', content: formatTranscript(this.messages.slice(range.start, range.end)) }
+      ]);
+
+      const usage = result.usage || { input_tokens: 0, output_tokens: 0 };
+      const cost = executor.calculateCost(usage.input_tokens, usage.output_tokens, usage.cache_read_input_tokens, usage.cache_creation_input_tokens);
+      addUsage(this.usage, toUsage(usage, cost));
+
+      const summary = messageText(result.message);
+      if (!summary) {
+        return this.messages;
+      }
+
+      this.log(`[BaseExecutor] Context window: summarized ${range.end - range.start} messages with ${executor.provider}/${executor.model}`);
+      return [
+        ...this.messages.slice(0, range.start),
+        { role: 'user', content: `Summary of the conversation so far:\n${summary}` },
+        ...this.messages.slice(range.end)
+      ];
+    } catch (error: any) {
+      if (signal.aborted) {
+        throw error;
+      }
+      this.log(`[BaseExecutor] Context window: summarization failed (${error.message})`);
+      return this.messages;
+    }
+  }
+
+  /**
+   * Invoke the summary executor
+   * Not a turn: no turn number, turn events or fallback, and the summary isn't streamed.
+   */
+  protected async invokeSummary(executor: BaseExecutor, summaryMessages: Message[]): Promise<InvokeResult> {
+    const context = this.getMiddlewareContext();
+    const request = await runBeforeInvoke(this.middleware, summaryMessages, {}, context);
+
+    let result: InvokeResult;
+    if ('result' in request) {
+      result = request.result;
+    } else {
+      const summaryAbort = createChildAbort(this.abortController.signal, this.turnTimeoutMs);
+      try {
+        result = await this.invokeWithRetry(executor, this.turnNumber, request.messages, { ...request.options, signal: summaryAbort.signal }, () => {}, false);
+      } catch (error) {
+        if (summaryAbort.signal.aborted) {
+          throw new AbortError(getAbortReason(summaryAbort.signal));
+        }
+        throw error;
+      } finally {
+        summaryAbort.dispose();
+      }
+    }
+
+    return runAfterInvoke(this.middleware, result, context);
+  }
+
+  /**
+   * Executor for summaries: contextWindow.summaryModel through the executor factory,
+   * or the executor serving the execution
+   */
+  protected async getSummaryExecutor(): Promise<BaseExecutor> {
+    const summaryModel = this.contextWindow?.summaryModel;
+
+    if (summaryModel && this.executorFactory) {
+      if (!this.summaryExecutor) {
+        this.summaryExecutor = await this.executorFactory({
+          ...this.config,
+          model: summaryModel,
+          messages: [],
+          log: this.log
+        });
+        if (this.summaryExecutor?.pricingFetchPromise) {
+          await this.summaryExecutor.pricingFetchPromise;
+        }
+      }
+      return this.summaryExecutor!;
+    }
+
+    return (await this.getModelExecutor(this.activeModelIndex)) || this;
+  }
+
+  /**
+   * Invoke the LLM for one turn
+   * Uses invokeStream() when a stream listener is attached, invoke() otherwise.
+   * Transient errors are retried on the same model per the retry policy.
+   * When the serving model still fails with a fallback-eligible error, the same turn is
+   * retried on the next model in manifest.models. Once a fallback model has served
+   * a turn it keeps serving the remaining turns of this execution.
+   */
+  protected async invokeModel(options: InvokeOptions): Promise<{ result: InvokeResult; servedBy: BaseExecutor; retries: number }> {
+    const turn = ++this.turnNumber;
+
+    this.emit({ type: 'turn_start', turn });
+
+    let result: InvokeResult | undefined;
+    let servedBy: BaseExecutor | undefined;
+    let retries = 0;
+
+    // Middleware may replace the request or answer it without calling the provider
+    const context = this.getMiddlewareContext();
+    const request = await runBeforeInvoke(this.middleware, this.messages, options, context);
+    const { messages, options: requestOptions } = 'result' in request ? { messages: this.messages, options } : request;
+    if ('result' in request) {
+      result = request.result;
+      servedBy = this;
+    }
+
+    // Per-turn signal: aborted with the execution or when turnTimeoutMs elapses
+    const turnAbort = createChildAbort(this.abortController.signal, this.turnTimeoutMs);
+
+    try {
+      for (let index = this.activeModelIndex; !result && index < this.modelConfig.length; index++) {
+        const executor = await this.getModelExecutor(index);
+        if (!executor) continue;
+
+        try {
+          result = await this.invokeWithRetry(executor, turn, messages, { ...requestOptions, signal: turnAbort.signal }, () => retries++);
+          servedBy = executor;
+          this.activeModelIndex = index;
+          break;
+        } catch (error: any) {
+          // SDK abort errors are normalized so the execution can report cancelled vs timeout
+          if (turnAbort.signal.aborted) {
+            const reason = getAbortReason(turnAbort.signal);
+            if (reason === 'timeout' && !this.abortController.signal.aborted) {
+              this.log(`[BaseExecutor] Turn ${turn} timed out after ${this.turnTimeoutMs}ms`);
+            }
+            throw new AbortError(reason);
+          }
+
+          const hasNext = this.modelFallback && index < this.modelConfig.length - 1;
+          if (!hasNext || !executor.isFallbackError(error)) {
+            const providerError = executor.toProviderError(error, turn);
+            const recovered = await runOnError(this.middleware, providerError, { ...context, stage: 'invoke' });
+            if (!recovered) {
+              throw providerError;
+            }
+            this.log(`[BaseExecutor] Middleware recovered from provider error: ${providerError.message}`);
+            result = recovered;
+            servedBy = executor;
+            break;
+          }
+          this.log(`[BaseExecutor] ${executor.provider}/${executor.model} failed (${error.message}), falling back to next model`);
+        }
+      }
+    } finally {
+      turnAbort.dispose();
+    }
+
+    if (!result || !servedBy) {
+      throw new ExecutorError('PROVIDER_ERROR', '[BaseExecutor] No model available to serve this turn', { turn });
+    }
+
+    result = await runAfterInvoke(this.middleware, result, context);
+
+    this.emit({
+      type: 'turn_end',
+      turn,
+      message: result.message,
+      usage: result.usage || { input_tokens: 0, output_tokens: 0 }
+    });
+
+    return { result, servedBy, retries };
+  }
+
+  /**
+   * Invoke the given executor, retrying transient errors with exponential backoff
+   * The executor that made the call classifies its SDK's error. Retries are logged,
+   * emitted as stream events and counted in the turn record and turn trace.
+   */
+  protected async invokeWithRetry(
+    executor: BaseExecutor,
+    turn: number,
+    messages: Message[],
+    options: InvokeOptions,
+    onRetry: () => void,
+    stream = true
+  ): Promise<InvokeResult> {
+    const signal = options.signal;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await raceWithSignal(this.invokeWith(executor, turn, messages, options, stream), signal);
+      } catch (error: any) {
+        if (signal?.aborted || attempt >= this.retryPolicy.maxAttempts) {
+          throw error;
+        }
+
+        const classification = executor.classifyError(error);
+        if (!classification.retryable) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(attempt, this.retryPolicy, classification.retryAfterMs);
+        this.log(`[BaseExecutor] ${executor.provider}/${executor.model} attempt ${attempt}/${this.retryPolicy.maxAttempts} failed (${error.message}), retrying in ${delayMs}ms`);
+        this.emit({ type: 'retry', turn, attempt, delayMs, error: error.message });
+        onRetry();
+
+        await sleep(delayMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Call the given executor's invoke() (or invokeStream() while streaming)
+   */
+  protected async invokeWith(executor: BaseExecutor, turn: number, messages: Message[], options: InvokeOptions, stream = true): Promise<InvokeResult> {
+    if (!this.streamListener || !stream) {
+      return executor.invoke(messages, options);
+    }
+
+    return executor.invokeStream(messages, options, delta => {
+      this.emit({ ...delta, turn });
+    });
+  }
+
+  /**
+   * Get the executor serving the model at the given index of the fallback order
+   * Index 0 is this executor; fallback executors are created lazily through the
+   * executor factory and cached. Returns undefined if the model can't be served
+   * (no factory, missing credentials, ...).
+   */
+  protected async getModelExecutor(index: number): Promise<BaseExecutor | undefined> {
+    if (index === 0) {
+      return this;
+    }
+
+    if (!this.fallbackExecutors.has(index)) {
+      const modelConfig = this.modelConfig[index];
+      let executor: BaseExecutor | undefined;
+
+      if (this.executorFactory) {
+        try {
+          executor = await this.executorFactory({
+            ...this.config,
+            model: modelConfig,
+            messages: [],
+            log: this.log
+          });
+          if (executor?.pricingFetchPromise) {
+            await executor.pricingFetchPromise;
+          }
+        } catch (error: any) {
+          this.log(`[BaseExecutor] Cannot use fallback model ${modelConfig.provider}/${modelConfig.name}: ${error.message}`);
+        }
       }
+
+      this.fallbackExecutors.set(index, executor);
     }
+
+    return this.fallbackExecutors.get(index);
+  }
+
+  /**
+   * Classify a provider error as retryable or not
+   * Handles HTTP statuses and network errors; provider adapters override this
+   * to recognize their SDK's error types and retry hints.
+   */
+  protected classifyError(error: any): ErrorClassification {
+    return classifyHttpError(error);
+  }
+
+  /**
+   * Check whether a provider error should trigger fallback to the next model
+   * Retryable errors that outlasted the retry policy (rate limits, overloads, 5xx,
+   * network errors), auth errors (401/403) and non-retryable rate limits (exhausted quota)
+   */
+  protected isFallbackError(error: any): boolean {
+    if (error instanceof AbortError) {
+      return false;
+    }
+
+    return this.classifyError(error).retryable || this.isAuthError(error) || this.isRateLimitError(error);
+  }
+
+  /**
+   * Check whether a provider error is an authentication/authorization failure
+   */
+  protected isAuthError(error: any): boolean {
+    const status = getErrorStatus(error);
+    if (status !== undefined) {
+      return status === 401 || status === 403;
+    }
+
+    // Errors without an HTTP status (e.g. AWS SDK exceptions) are matched by name
+    return ['AccessDeniedException', 'UnrecognizedClientException'].includes(error?.name);
+  }
+
+  /**
+   * Check whether a provider error is a rate limit (including exhausted quota)
+   */
+  protected isRateLimitError(error: any): boolean {
+    return getErrorStatus(error) === 429 || error?.name === 'ThrottlingException';
+  }
+
+  /**
+   * Wrap a provider SDK error into an ExecutorError with its code and retryability
+   */
+  protected toProviderError(error: any, turn: number): ExecutorError {
+    // Adapters throw ExecutorError for responses they can't use - keep its code
+    if (error instanceof ExecutorError) {
+      return new ExecutorError(error.code, error.message, {
+        provider: error.provider ?? this.provider,
+        retryable: error.retryable,
+        turn,
+        cause: error.cause
+      });
+    }
+
+    let code: ExecutionErrorCode = 'PROVIDER_ERROR';
+    if (this.isRateLimitError(error)) {
+      code = 'PROVIDER_RATE_LIMIT';
+    } else if (this.isAuthError(error)) {
+      code = 'PROVIDER_AUTH';
+    }
+
+    return new ExecutorError(code, error?.message || String(error), {
+      provider: this.provider,
+      retryable: this.classifyError(error).retryable,
+      turn,
+      cause: error
+    });
+  }
+
+  /**
+   * Validate variables against manifest schema
+   * Reports every missing or invalid variable in one error, after a malformed system template
+   */
+  protected validateVariables(): void {
+    if (this.templateError) throw this.templateError;
+    if (this.variableErrors.length === 0) return;
+
+    // VARIABLE_MISSING only when every problem is a missing variable
+    const code = this.variableErrors.length === this.missingVariables.length ? 'VARIABLE_MISSING' : 'VARIABLE_INVALID';
+    throw new ExecutorError(code, `[BaseExecutor] ${this.variableErrors.join('; ')}`);
   }
 
   /**
@@ -595,44 +1480,64 @@ export default class BaseExecutor {
       content: this.instructions
     });
 
-    // User message - render from chunks
-    const populatedContent = this.renderChunks(this.manifest.user, this.variables);
-
-    // If files are provided, build multimodal content
-    let userContent: string | any[];
-    if (this.files && this.files.length > 0) {
-      userContent = [
-        { type: 'text', text: populatedContent },
-        ...this.files
-      ];
-    } else {
-      userContent = populatedContent;
+    // User message - render from chunks, followed by the chat message if any
+    let populatedContent = this.renderChunks(this.manifest.user, this.variables);
+    if (this.userMessage !== undefined) {
+      populatedContent = populatedContent.trim()
+        ? `${populatedContent}\n\n${this.userMessage}`
+        : this.userMessage;
     }
 
-    messages.push({
-      role: 'user',
-      content: userContent
-    });
+    messages.push(this.buildUserMessage(populatedContent));
 
     return messages;
   }
 
+  /**
+   * Build a user message, attaching files (images, audio) as multimodal content
+   */
+  protected buildUserMessage(text: string): Message {
+    if (this.files && this.files.length > 0) {
+      return {
+        role: 'user',
+        content: [
+          { type: 'text', text },
+          ...this.files
+        ]
+      };
+    }
+
+    return { role: 'user', content: text };
+  }
+
   /**
    * Tool loop - handle tool calls until completion
    */
-  protected async runToolLoop(message: Message, usage: Usage): Promise<any> {
-    const terminatingTools = ['finish_agent_run', 'output'];
+  protected async runToolLoop(message: Message): Promise<any> {
+    const terminatingTools = this.terminatingTools;
 
     while (this.hasToolCalls(message)) {
       if (this.cancelled) break;
 
-      // Safety check: prevent infinite loops
-      if (this.messages.length >= this.maxMessages) {
-        const error = `[BaseExecutor] Message stack exceeded ${this.maxMessages} messages. Possible infinite loop detected. Agent must call a terminating tool (finish_agent_run or output) to complete.`;
+      // Safety check: prevent infinite loops (only this execution's messages count)
+      if (this.messages.length - this.historyLength + this.removedMessages >= this.maxMessages) {
+        const error = `[BaseExecutor] Message stack exceeded ${this.maxMessages} messages. Possible infinite loop detected. Agent must call a terminating tool (${terminatingTools.join(' or ')}) to complete.`;
         this.log(error);
-        throw new Error(error);
+        throw new ExecutorError('MAX_MESSAGES_EXCEEDED', error, { turn: this.turnNumber });
+      }
+
+      // Pause before running any call of this turn if one needs a human decision
+      const pendingApprovals = this.getPendingApprovals(message.tool_calls!);
+      if (pendingApprovals.length > 0) {
+        this.log(`[BaseExecutor] Awaiting approval for: ${pendingApprovals.map(call => call.name).join(', ')}`);
+        this.pendingApprovals = pendingApprovals;
+        this.executionId = this.executionId || globalThis.crypto.randomUUID();
+        await this.saveCheckpoint();
+        return { ok: false, status: 'awaiting_approval' };
       }
 
+      message = this.applyApprovalEdits(message);
+
       // Execute tool calls
       const toolResults = await this.handleToolCalls(message.tool_calls!);
 
@@ -647,12 +1552,19 @@ export default class BaseExecutor {
       }
 
       // Add tool results to messages
-      for (const result of toolResults) {
+      for (let i = 0; i < toolResults.length; i++) {
+        const result = toolResults[i];
         this.messages.push({
           role: 'tool',
           tool_call_id: result.tool_call_id,
           content: JSON.stringify(result.content)
         });
+        this.emit({
+          type: 'tool_result',
+          turn: this.turnNumber,
+          toolCall: message.tool_calls![i],
+          content: result.content
+        });
       }
 
       // Call onToolCall callback
@@ -695,136 +1607,550 @@ export default class BaseExecutor {
         }
       }
 
-      // Next LLM invocation
-      // Use 'required' tool_choice to ensure agent always calls a tool in the loop
-      // Unless a tool result specified forceNextTool
-      const turnStart = Date.now();
-      let toolChoiceStr: string = 'required';
+      // Turn complete - the execution can be resumed from here
+      await this.saveCheckpoint();
 
-      if (this.forceNextTool) {
-        toolChoiceStr = this.forceNextTool;
-        this.log(`[BaseExecutor] Forcing tool choice: ${this.forceNextTool}`);
+      message = await this.runNextTurn();
+    }
+
+    if (this.cancelled) {
+      return { ok: false, status: this.getAbortStatus() };
+    }
+
+    // No terminating tool found
+    throw new ExecutorError('NO_TERMINATING_TOOL', '[BaseExecutor] Agent ended without calling terminating tool', {
+      turn: this.turnNumber
+    });
+  }
+
+  /**
+   * Args of the first tool call, the output without a tool router (playground mode)
+   * Validated against the tool's schema like a terminating tool's args, with the same corrective retries.
+   * The final tool calls are answered too, so the messages can be continued (ChatSession).
+   */
+  protected async getPlaygroundOutput(message: Message): Promise<any> {
+    let toolCall = message.tool_calls![0];
+
+    while (this.validateOutput) {
+      const outputErrors = this.getToolArgErrors(toolCall);
+      if (outputErrors.length === 0) break;
+
+      // Throws OUTPUT_INVALID once the retries are spent
+      const rejection = this.rejectOutput(toolCall, outputErrors);
+      this.addPlaygroundToolResults(message, rejection.content);
+
+      this.forceNextTool = rejection.forceNextTool;
+      message = await this.runNextTurn();
+      this.forceNextTool = undefined;
+
+      if (!message.tool_calls?.length) {
+        return message.content;
       }
+      toolCall = message.tool_calls[0];
+    }
 
-      // Convert to OpenAI format - provider adapters will translate
-      const toolChoice = this.normalizeToolChoice(toolChoiceStr);
+    // Like a built-in terminating tool, the output call's result is its args
+    this.addPlaygroundToolResults(message, toolCall.args);
+    return toolCall.args;
+  }
 
-      const result = await this.invoke(this.messages, {
-        tools: this.allToolDefs,
-        tool_choice: toolChoice
+  /**
+   * Answer every tool call of a playground turn - providers reject tool calls without results
+   * The first call gets the given content; the others were not executed.
+   */
+  protected addPlaygroundToolResults(message: Message, content: any): void {
+    message.tool_calls!.forEach((call, index) => {
+      this.messages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(index === 0 ? content : { completed: false, error: true, message: 'Not executed' })
       });
-      const turnDuration = Date.now() - turnStart;
+    });
+  }
+
+  /**
+   * Next LLM invocation of the tool loop
+   * Uses 'required' tool_choice to ensure agent always calls a tool in the loop,
+   * unless a tool result specified forceNextTool
+   */
+  protected async runNextTurn(): Promise<Message> {
+    // Stop before spending more if a budget is exhausted
+    this.checkBudgets();
+
+    let toolChoiceStr: string = 'required';
+
+    if (this.forceNextTool) {
+      toolChoiceStr = this.forceNextTool;
+      this.log(`[BaseExecutor] Forcing tool choice: ${this.forceNextTool}`);
+    }
+
+    // Convert to OpenAI format - provider adapters will translate
+    return this.runTurn(this.normalizeToolChoice(toolChoiceStr));
+  }
 
-      // Update usage
-      usage.inputTokens += result.usage?.input_tokens || 0;
-      usage.outputTokens += result.usage?.output_tokens || 0;
-      usage.totalCostUSD = this.calculateCost(usage.inputTokens, usage.outputTokens);
+  /**
+   * Snapshot the execution state between tool loop turns
+   * Copied through JSON so later turns can't mutate it and it is known to serialize
+   */
+  protected createCheckpoint(): ExecutionCheckpoint {
+    return JSON.parse(JSON.stringify({
+      version: 1,
+      executionId: this.executionId!,
+      turn: this.turnNumber,
+      createdAt: new Date().toISOString(),
+      manifest: this.manifest,
+      etag: this.tracing?.etag,
+      variables: this.variables,
+      model: this.modelConfig[this.activeModelIndex],
+      messages: this.messages,
+      usage: this.usage,
+      turns: this.turns,
+      toolCalls: this.toolCalls,
+      toolErrorCount: this.toolErrorCount,
+      ...(this.removedTools.size > 0 && { removedTools: [...this.removedTools] }),
+      forceNextTool: this.forceNextTool,
+      ...(this.historyLength > 0 && { historyLength: this.historyLength }),
+      ...(this.removedMessages > 0 && { removedMessages: this.removedMessages }),
+      ...(this.pendingApprovals && { awaitingApproval: true })
+    }));
+  }
 
-      // Add message and continue
-      message = result.message;
-      this.messages.push(message);
+  /**
+   * Tool calls that require approval and have no decision yet
+   */
+  protected getPendingApprovals(toolCalls: ToolCall[]): ToolCall[] {
+    return toolCalls.filter(toolCall => !this.approvals.has(toolCall.id) && this.requiresApproval(toolCall));
+  }
 
-      // Send trace for this turn
-      const turnCost = this.calculateCost(result.usage?.input_tokens || 0, result.usage?.output_tokens || 0);
-      await this.sendTurnTrace(result.usage || { input_tokens: 0, output_tokens: 0 }, turnDuration, turnCost);
+  /**
+   * Replace edited tool calls with calls carrying the approved args
+   * The message is swapped for a copy in the history so the model sees the args that ran
+   */
+  protected applyApprovalEdits(message: Message): Message {
+    const toolCalls = message.tool_calls!.map(toolCall => {
+      const decision = this.approvals.get(toolCall.id);
+      return decision?.decision === 'edit' ? { ...toolCall, args: decision.args } : toolCall;
+    });
+    if (toolCalls.every((toolCall, index) => toolCall === message.tool_calls![index])) {
+      return message;
     }
 
-    if (this.cancelled) {
-      return { ok: false, status: 'cancelled' };
+    const edited = { ...message, tool_calls: toolCalls };
+    const index = this.messages.lastIndexOf(message);
+    if (index !== -1) {
+      this.messages[index] = edited;
     }
+    return edited;
+  }
 
-    // No terminating tool found
-    throw new Error('[BaseExecutor] Agent ended without calling terminating tool');
+  /**
+   * Whether a tool call needs a human decision before it runs
+   * Set per tool in the manifest or on the tool handler (a function decides per call)
+   */
+  protected requiresApproval(toolCall: ToolCall): boolean {
+    if (this.approvalTools.has(toolCall.name)) {
+      return true;
+    }
+
+    const requiresApproval = this.toolRouter[toolCall.name]?.requiresApproval;
+    return typeof requiresApproval === 'function'
+      ? requiresApproval(toolCall.args, toolCall)
+      : requiresApproval === true;
+  }
+
+  /**
+   * Restore the state saved in a checkpoint
+   */
+  protected restoreCheckpoint(checkpoint: ExecutionCheckpoint): void {
+    if (checkpoint.version !== 1) {
+      throw new Error(`[BaseExecutor] Unsupported checkpoint version: ${checkpoint.version}`);
+    }
+
+    // Deep copy - approval edits and middleware change tool calls in place, the caller's checkpoint must not change
+    checkpoint = structuredClone(checkpoint);
+
+    this.messages = checkpoint.messages;
+    this.usage = checkpoint.usage;
+    this.turns = checkpoint.turns;
+    this.toolCalls = checkpoint.toolCalls;
+    this.toolErrorCount = checkpoint.toolErrorCount;
+    this.removedTools = new Set(checkpoint.removedTools);
+    this.forceNextTool = checkpoint.forceNextTool;
+    this.turnNumber = checkpoint.turn;
+    this.historyLength = checkpoint.historyLength ?? 0;
+    this.removedMessages = checkpoint.removedMessages ?? 0;
+  }
+
+  /**
+   * Hand a checkpoint to onCheckpoint and the checkpoint store
+   * Failures are logged - a checkpoint that can't be saved doesn't fail the execution
+   */
+  protected async saveCheckpoint(): Promise<void> {
+    if (!this.checkpointStore && !this.onCheckpoint) return;
+
+    const checkpoint = this.createCheckpoint();
+    try {
+      await this.onCheckpoint?.(checkpoint);
+      await this.checkpointStore?.save(checkpoint.executionId, checkpoint);
+    } catch (error: any) {
+      this.log(`[BaseExecutor] Failed to save checkpoint for turn ${checkpoint.turn}: ${error.message}`);
+    }
   }
 
   /**
-   * Handle tool calls - execute sequentially
+   * Remove the execution's checkpoint from the store
+   */
+  protected async deleteCheckpoint(): Promise<void> {
+    if (!this.checkpointStore || !this.executionId) return;
+
+    try {
+      await this.checkpointStore.delete(this.executionId);
+    } catch (error: any) {
+      this.log(`[BaseExecutor] Failed to delete checkpoint: ${error.message}`);
+    }
+  }
+
+  /**
+   * Throw BUDGET_EXCEEDED if the execution reached one of its budgets
+   * Budgets are checked between turns, so the last turn may overshoot them
+   */
+  protected checkBudgets(): void {
+    const { maxCostUSD, maxInputTokens, maxOutputTokens, maxTurns } = this.budgets;
+
+    const checks: Array<[string, number | undefined, number]> = [
+      ['maxCostUSD', maxCostUSD, this.usage.totalCostUSD],
+      ['maxInputTokens', maxInputTokens, this.usage.inputTokens],
+      ['maxOutputTokens', maxOutputTokens, this.usage.outputTokens],
+      ['maxTurns', maxTurns, this.turns.length]
+    ];
+
+    for (const [name, limit, spent] of checks) {
+      if (limit !== undefined && spent >= limit) {
+        const error = `[BaseExecutor] Budget exceeded: ${name} is ${limit}, execution used ${spent}`;
+        this.log(error);
+        throw new ExecutorError('BUDGET_EXCEEDED', error, { turn: this.turnNumber });
+      }
+    }
+  }
+
+  /**
+   * Handle tool calls
+   * Executes sequentially by default; with parallelToolCalls, runs up to
+   * toolConcurrency calls at a time. Results are always in tool_calls order.
    */
   protected async handleToolCalls(toolCalls: ToolCall[]): Promise<ToolResult[]> {
-    const results: ToolResult[] = [];
+    if (!this.parallelToolCalls || toolCalls.length < 2) {
+      const results: ToolResult[] = [];
+      for (const toolCall of toolCalls) {
+        results.push(await this.executeToolCall(toolCall));
+      }
+      return results;
+    }
 
-    for (const toolCall of toolCalls) {
-      this.log(`[BaseExecutor] Executing tool: ${toolCall.name}`);
+    const results: ToolResult[] = new Array(toolCalls.length);
+    let nextIndex = 0;
+    let failure: { error: any } | undefined;
 
-      const toolStart = Date.now();
-      let toolResult: any;
-      let toolStatus: 'success' | 'error' = 'success';
+    // Worker pool - each worker takes the next pending call until none are left
+    // After a fatal tool error, pending calls are not started; in-flight calls finish
+    const worker = async () => {
+      while (nextIndex < toolCalls.length && !failure) {
+        const index = nextIndex++;
+        try {
+          results[index] = await this.executeToolCall(toolCalls[index]);
+        } catch (error) {
+          failure = failure || { error };
+        }
+      }
+    };
 
-      // Handle built-in tools internally
-      if (toolCall.name === 'finish_agent_run') {
-        // Check if toolRouter has a handler for finish_agent_run
-        const toolHandler = this.toolRouter[toolCall.name];
+    const workerCount = Math.min(this.toolConcurrency, toolCalls.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
 
-        if (toolHandler) {
-          // Use custom handler if provided
-          try {
-            toolResult = await toolHandler.execute(toolCall.args);
-            toolStatus = toolResult.error ? 'error' : 'success';
-          } catch (error: any) {
-            toolResult = {
-              completed: false,
-              error: true,
-              message: error.message || 'An error occurred while executing finish_agent_run'
-            };
-          }
-        } else {
-          // Built-in terminating tool - return args directly
-          toolResult = toolCall.args;
+    if (failure) {
+      throw failure.error;
+    }
+
+    return results;
+  }
+
+  /**
+   * Execute a single tool call and record it in the tool call timeline
+   * A call is recorded as 'error' when it throws or returns an error result
+   */
+  protected async executeToolCall(toolCall: ToolCall): Promise<ToolResult> {
+    const turn = this.turnNumber;
+    const start = Date.now();
+    const record = (status: ToolCallRecord['status']) => {
+      this.toolCalls.push({ turn, id: toolCall.id, name: toolCall.name, durationMs: Date.now() - start, status });
+    };
+
+    // Rejected calls don't run - edited calls already carry the new args (applyApprovalEdits)
+    const decision = this.approvals.get(toolCall.id);
+    if (decision?.decision === 'reject') {
+      this.log(`[BaseExecutor] Tool call rejected: ${toolCall.name}`);
+      record('rejected');
+      return {
+        tool_call_id: toolCall.id,
+        content: {
+          completed: false,
+          error: true,
+          message: `The user rejected this tool call${decision.reason ? `: ${decision.reason}` : ''}. Do not retry it unchanged.`
         }
-        // Note: No toolTrace sent for finish_agent_run - it's captured in the turnTrace
-      } else if (toolCall.name === 'fetch_available_scenarios') {
-        toolResult = this.handleFetchAvailableScenarios();
-        const toolDuration = Date.now() - toolStart;
-        toolStatus = toolResult.error ? 'error' : 'success';
-        await this.sendToolTrace(toolCall.name, {}, toolResult, toolDuration, toolStatus);
-      } else if (toolCall.name === 'fetch_scenario_specific_instructions') {
-        toolResult = this.handleFetchScenarioInstructions(toolCall.args);
-        const toolDuration = Date.now() - toolStart;
-        toolStatus = toolResult.error ? 'error' : 'success';
-        await this.sendToolTrace(toolCall.name, toolCall.args, toolResult, toolDuration, toolStatus);
-      } else {
-        // Check toolRouter for user-defined tools
-        const toolHandler = this.toolRouter[toolCall.name];
+      };
+    }
+
+    try {
+      // Middleware may replace the args, answer the call without running the tool, or veto it
+      const context = { ...this.getMiddlewareContext(), turn };
+      const intercepted = await runBeforeTool(this.middleware, toolCall, context);
+      if (intercepted && 'reject' in intercepted) {
+        this.log(`[BaseExecutor] Tool call rejected by middleware: ${toolCall.name}`);
+        record('rejected');
+        return {
+          tool_call_id: toolCall.id,
+          content: { completed: false, error: true, message: `This tool call was rejected: ${intercepted.reject}` }
+        };
+      }
+
+      const result = intercepted
+        ? { tool_call_id: toolCall.id, content: intercepted.result, forceNextTool: intercepted.result?.forceNextTool }
+        : await this.dispatchToolCall(toolCall);
+
+      if (this.middleware.length > 0) {
+        result.content = await runAfterTool(this.middleware, toolCall, result.content, context);
+        result.forceNextTool = result.content?.forceNextTool ?? result.forceNextTool;
+      }
+
+      record(result.content?.error ? 'error' : 'success');
+      return result;
+    } catch (error) {
+      record(error instanceof AbortError ? 'cancelled' : 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * Dispatch a single tool call (built-in or from toolRouter)
+   */
+  protected async dispatchToolCall(toolCall: ToolCall): Promise<ToolResult> {
+    this.log(`[BaseExecutor] Executing tool: ${toolCall.name}`);
+
+    const toolStart = Date.now();
+    let toolResult: any;
+    let toolStatus: 'success' | 'error' = 'success';
+
+    // The terminating tool's args become the result - they must match its schema first
+    if (this.validateOutput && this.terminatingTools.includes(toolCall.name)) {
+      const outputErrors = this.getToolArgErrors(toolCall);
+      if (outputErrors.length > 0) {
+        return this.rejectOutput(toolCall, outputErrors);
+      }
+    }
 
-        if (!toolHandler) {
+    // Handle built-in tools internally
+    if (this.terminatingTools.includes(toolCall.name)) {
+      // Check if toolRouter has a handler for the terminating tool
+      const toolHandler = this.toolRouter[toolCall.name];
+
+      if (toolHandler) {
+        // Use custom handler if provided
+        try {
+          toolResult = await this.runToolHandler(toolHandler, toolCall);
+          toolStatus = toolResult.error ? 'error' : 'success';
+        } catch (error: any) {
+          if (error instanceof AbortError) throw error;
           toolResult = {
             completed: false,
             error: true,
-            message: `Tool '${toolCall.name}' not found`
+            message: error.message || `An error occurred while executing ${toolCall.name}`
           };
-        } else {
-          try {
-            toolResult = await toolHandler.execute(toolCall.args);
-            this.toolErrorCount[toolCall.name] = 0;
-          } catch (error: any) {
-            this.toolErrorCount[toolCall.name] = (this.toolErrorCount[toolCall.name] || 0) + 1;
-            this.log(`[BaseExecutor] Tool error: ${toolCall.name}`, error.message);
-
-            // Fail after 3 errors
-            if (this.toolErrorCount[toolCall.name] >= 3) {
-              throw error;
+        }
+      } else {
+        // Built-in terminating tool - return args directly
+        toolResult = toolCall.args;
+      }
+      // Note: No toolTrace sent for terminating tools - the call is captured in the turnTrace
+    } else if (toolCall.name === 'fetch_available_scenarios') {
+      toolResult = this.handleFetchAvailableScenarios();
+      const toolDuration = Date.now() - toolStart;
+      toolStatus = toolResult.error ? 'error' : 'success';
+      await this.sendToolTrace(toolCall.name, {}, toolResult, toolDuration, toolStatus);
+    } else if (toolCall.name === 'fetch_scenario_specific_instructions') {
+      toolResult = this.handleFetchScenarioInstructions(toolCall.args);
+      const toolDuration = Date.now() - toolStart;
+      toolStatus = toolResult.error ? 'error' : 'success';
+      await this.sendToolTrace(toolCall.name, toolCall.args, toolResult, toolDuration, toolStatus);
+    } else {
+      // Check toolRouter for user-defined tools
+      const toolHandler = this.toolRouter[toolCall.name];
+
+      const validationErrors = toolHandler && this.validateToolArgs ? this.getToolArgErrors(toolCall) : [];
+
+      if (this.removedTools.has(toolCall.name)) {
+        toolResult = {
+          completed: false,
+          error: true,
+          message: `Tool '${toolCall.name}' is no longer available`
+        };
+      } else if (!toolHandler) {
+        toolResult = {
+          completed: false,
+          error: true,
+          message: `Tool '${toolCall.name}' not found`
+        };
+      } else if (validationErrors.length > 0) {
+        // Invalid args never reach the handler - the model gets the exact problems to fix
+        // and the call doesn't count toward the tool's error limit
+        this.log(`[BaseExecutor] Invalid args for ${toolCall.name}:`, validationErrors);
+        toolResult = {
+          completed: false,
+          error: true,
+          message: `Invalid arguments for tool '${toolCall.name}'. Fix these problems and call it again.`,
+          validationErrors
+        };
+      } else {
+        try {
+          toolResult = await this.runToolHandler(toolHandler, toolCall);
+          this.toolErrorCount[toolCall.name] = 0;
+        } catch (error: any) {
+          if (error instanceof AbortError) throw error;
+          const errorCount = (this.toolErrorCount[toolCall.name] || 0) + 1;
+          this.toolErrorCount[toolCall.name] = errorCount;
+          this.log(`[BaseExecutor] Tool error: ${toolCall.name}`, error.message);
+
+          const { maxErrors, exposeErrors, onMaxErrors } = this.toolErrorPolicy;
+          let message = exposeErrors && error.message
+            ? `Tool '${toolCall.name}' failed: ${error.message}`
+            : 'An error occurred while executing this tool. Please try a different approach.';
+
+          if (errorCount >= maxErrors) {
+            if (onMaxErrors !== 'remove') {
+              throw new ExecutorError(
+                'TOOL_FAILED',
+                `[BaseExecutor] Tool '${toolCall.name}' failed ${errorCount} times: ${error.message}`,
+                { turn: this.turnNumber, cause: error }
+              );
             }
 
-            toolResult = {
-              completed: false,
-              error: true,
-              message: 'An error occurred while executing this tool. Please try a different approach.'
-            };
+            // The run continues without the tool
+            this.log(`[BaseExecutor] Removing tool ${toolCall.name} after ${errorCount} errors`);
+            this.removedTools.add(toolCall.name);
+            message = `${message} The tool failed ${errorCount} times and is no longer available. Continue without it.`;
           }
+
+          toolResult = {
+            completed: false,
+            error: true,
+            message
+          };
         }
       }
+    }
 
-      // Extract forceNextTool if present in the tool result
-      const forceNextTool = toolResult?.forceNextTool;
+    // Extract forceNextTool if present in the tool result
+    const forceNextTool = toolResult?.forceNextTool;
 
-      results.push({
-        tool_call_id: toolCall.id,
-        content: toolResult,
-        forceNextTool: forceNextTool
-      });
+    return {
+      tool_call_id: toolCall.id,
+      content: toolResult,
+      forceNextTool: forceNextTool
+    };
+  }
+
+  /**
+   * Tool definitions offered to the model: the manifest tools minus those removed by the tool error policy
+   */
+  protected getAvailableTools(): ToolDefinition[] {
+    if (this.removedTools.size === 0) {
+      return this.allToolDefs;
     }
+    return this.allToolDefs.filter(tool => !this.removedTools.has(tool?.function?.name));
+  }
 
-    return results;
+  /**
+   * Send invalid terminating tool output back to the model for a corrective retry
+   * Throws OUTPUT_INVALID once maxOutputRepairs retries were spent
+   */
+  protected rejectOutput(toolCall: ToolCall, outputErrors: string[]): ToolResult {
+    this.outputRepairs++;
+    this.log(`[BaseExecutor] Invalid output from ${toolCall.name} (${this.outputRepairs}/${this.maxOutputRepairs + 1}):`, outputErrors);
+
+    if (this.outputRepairs > this.maxOutputRepairs) {
+      throw new ExecutorError(
+        'OUTPUT_INVALID',
+        `[BaseExecutor] Output of '${toolCall.name}' failed schema validation ${this.outputRepairs} times: ${outputErrors.join('; ')}`,
+        { turn: this.turnNumber }
+      );
+    }
+
+    return {
+      tool_call_id: toolCall.id,
+      content: {
+        completed: false,
+        error: true,
+        message: `The output does not match the '${toolCall.name}' schema. Fix these problems and call ${toolCall.name} again.`,
+        validationErrors: outputErrors
+      },
+      forceNextTool: toolCall.name
+    };
+  }
+
+  /**
+   * Validate a tool call's args against the tool's parameters schema
+   * Returns no errors when the tool has no schema
+   */
+  protected getToolArgErrors(toolCall: ToolCall): string[] {
+    const schema = this.allToolDefs.find(tool => tool?.function?.name === toolCall.name)?.function?.parameters;
+    if (!schema) return [];
+
+    try {
+      return validateSchema(toolCall.args ?? {}, schema);
+    } catch (error: any) {
+      // A schema the validator can't handle shouldn't block the tool
+      this.log(`[BaseExecutor] Skipping arg validation for ${toolCall.name}: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Run a tool handler with the execution's abort signal
+   * Rejects as soon as the execution is aborted, even if the handler ignores the signal.
+   * Handler errors go to the onError middleware, which may recover with a result.
+   */
+  protected async runToolHandler(toolHandler: ToolHandler, toolCall: ToolCall): Promise<any> {
+    const signal = this.abortController.signal;
+    try {
+      const execution = {
+        executionId: this.executionId,
+        promptName: this.manifest.name,
+        depth: this.depth,
+        maxDepth: this.maxDepth,
+        tracing: this.tracing,
+        addUsage: (usage: Usage) => addUsage(this.usage, usage)
+      };
+      return await raceWithSignal(
+        Promise.resolve().then(() => toolHandler.execute(toolCall.args, { toolCall, signal, execution })),
+        signal
+      );
+    } catch (error: any) {
+      if (error instanceof AbortError) throw error;
+
+      const recovered = await runOnError(this.middleware, error, { ...this.getMiddlewareContext(), stage: 'tool', toolCall });
+      if (recovered === undefined) throw error;
+      return recovered;
+    }
+  }
+
+  /**
+   * Context passed to middleware hooks
+   */
+  protected getMiddlewareContext(): MiddlewareContext {
+    return {
+      promptName: this.manifest.name,
+      turn: this.turnNumber,
+      signal: this.abortController.signal
+    };
   }
 
   /**
@@ -889,7 +2215,7 @@ export default class BaseExecutor {
    * Send trace for LLM turn to observability API
    * Sends entire message stack with token usage for this turn
    */
-  protected async sendTurnTrace(turnUsage: { input_tokens: number; output_tokens: number }, turnDuration: number, cost?: number): Promise<void> {
+  protected async sendTurnTrace(turnUsage: NonNullable<InvokeResult['usage']>, turnDuration: number, cost?: number, modelConfig: ModelConfig = this.primaryModelConfig, retries: number = 0): Promise<void> {
     if (!this.tracing) return;
 
     // Get the last assistant message as output (entire message object)
@@ -919,13 +2245,20 @@ export default class BaseExecutor {
       cost: cost || 0,
       duration: turnDuration,
       model: {
-        provider: this.provider,
-        name: this.model,
-        metadata: this.primaryModelConfig.metadata || {}
+        provider: modelConfig.provider,
+        name: modelConfig.name,
+        metadata: modelConfig.metadata || {}
       },
       status: 'completed',
       metadata: {
-        turnNumber: this.messages.filter(m => m.role === 'assistant').length
+        turnNumber: this.messages.filter(m => m.role === 'assistant').length,
+        fallback: modelConfig !== this.primaryModelConfig,
+        retries,
+        modelSampling: Boolean(this.manifest.modelSampling),
+        ...(turnUsage.cache_read_input_tokens && { cacheReadInputTokens: turnUsage.cache_read_input_tokens }),
+        ...(turnUsage.cache_creation_input_tokens && { cacheCreationInputTokens: turnUsage.cache_creation_input_tokens }),
+        ...(turnUsage.reasoning_tokens && { reasoningTokens: turnUsage.reasoning_tokens }),
+        ...this.getTraceLinks()
       },
       tags: this.tracing.tags || []
     };
@@ -933,6 +2266,18 @@ export default class BaseExecutor {
     await sendTrace(this.tracing, payload, this.log);
   }
 
+  /**
+   * Trace metadata linking nested executions (prompt tools) to the execution that ran them
+   */
+  protected getTraceLinks(): Record<string, any> {
+    return {
+      ...(this.executionId && { executionId: this.executionId }),
+      ...(this.tracing?.parentExecutionId && { parentExecutionId: this.tracing.parentExecutionId }),
+      ...(this.tracing?.parentToolCallId && { parentToolCallId: this.tracing.parentToolCallId }),
+      ...(this.depth > 0 && { depth: this.depth })
+    };
+  }
+
   /**
    * Send trace for tool execution to observability API
    */
@@ -963,7 +2308,9 @@ export default class BaseExecutor {
       status: status === 'success' ? 'completed' : 'error',
       metadata: {
         toolName,
-        toolExecution: true
+        toolExecution: true,
+        modelSampling: Boolean(this.manifest.modelSampling),
+        ...this.getTraceLinks()
       },
       tags: this.tracing.tags || []
     };
@@ -983,6 +2330,48 @@ export default class BaseExecutor {
     throw new Error('invoke() must be implemented by provider adapter');
   }
 
+  /**
+   * Invoke LLM with streaming, reporting deltas through onDelta
+   * Resolves with the same normalized result as invoke().
+   * Default implementation falls back to invoke() and replays the complete
+   * response as deltas; provider adapters override it with native streaming.
+   */
+  async invokeStream(messages: Message[], options: InvokeOptions, onDelta: StreamDeltaCallback): Promise<InvokeResult> {
+    const result = await this.invoke(messages, options);
+
+    if (result.message.reasoning?.text) {
+      onDelta({ type: 'reasoning_delta', text: result.message.reasoning.text });
+    }
+    const text = typeof result.message.content === 'string' ? result.message.content : '';
+    if (text) {
+      onDelta({ type: 'text_delta', text });
+    }
+    for (const toolCall of result.message.tool_calls || []) {
+      onDelta({ type: 'tool_call_start', id: toolCall.id, name: toolCall.name });
+      onDelta({ type: 'tool_call_delta', id: toolCall.id, argsDelta: JSON.stringify(toolCall.args) });
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse tool call args that arrived as streamed JSON fragments
+   * A response that ends partway through a call (max_tokens, dropped stream) leaves invalid JSON.
+   */
+  protected parseStreamedArgs(json: string, toolName: string, stopReason?: string | null): Record<string, any> {
+    if (!json) return {};
+
+    try {
+      return JSON.parse(json);
+    } catch {
+      throw new ExecutorError(
+        'PROVIDER_ERROR',
+        `[BaseExecutor] Incomplete arguments for tool '${toolName}': the response ended partway through the call${stopReason ? ` (stop reason: ${stopReason})` : ''}`,
+        { provider: this.provider }
+      );
+    }
+  }
+
   /**
    * Check if message has tool calls
    */
@@ -0,0 +1,171 @@
+/**
+ * ChatSession Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ChatSession } from './ChatSession.js';
+import type { StudioExecutor } from './StudioExecutor.js';
+import { createExecutor } from './executorFactory.js';
+import type { Manifest, Message } from './types.js';
+
+const usage = { inputTokens: 10, outputTokens: 5, totalCostUSD: 0.001 };
+
+/**
+ * Fake StudioExecutor whose execute() echoes the user message as the assistant reply
+ */
+function createStudioExecutor() {
+  const execute = vi.fn(async (_promptName: string, _variables: any, _toolRouter: any, options: any) => {
+    const messages: Message[] = options.messages.length > 0
+      ? [...options.messages, { role: 'user', content: options.userMessage }]
+      : [{ role: 'system', content: 'System' }, { role: 'user', content: options.userMessage }];
+    const reply = `echo: ${options.userMessage}`;
+
+    return {
+      ok: true,
+      status: 'completed' as const,
+      usage,
+      result: reply,
+      messages: [...messages, { role: 'assistant' as const, content: reply }]
+    };
+  });
+
+  return { executor: { execute } as unknown as StudioExecutor, execute };
+}
+
+describe('ChatSession', () => {
+  it('should keep history across sends', async () => {
+    const { executor, execute } = createStudioExecutor();
+    const toolRouter = { lookup: { execute: vi.fn() } };
+    const session = new ChatSession(executor, { promptName: 'chat', variables: { name: 'Ada' }, messages: [] }, toolRouter, {
+      maxTurns: 5
+    });
+
+    const first = await session.send('Hi');
+    expect(first.result).toBe('echo: Hi');
+    expect(execute).toHaveBeenLastCalledWith('chat', { name: 'Ada' }, toolRouter, expect.objectContaining({
+      messages: [],
+      userMessage: 'Hi',
+      maxTurns: 5
+    }));
+
+    await session.send('How are you?');
+    const options = execute.mock.calls[1][3];
+    expect(options.messages).toHaveLength(3);
+    expect(options.userMessage).toBe('How are you?');
+
+    expect(session.messages.map(m => m.content)).toEqual([
+      'System',
+      'Hi',
+      'echo: Hi',
+      'How are you?',
+      'echo: How are you?'
+    ]);
+    expect(session.usage).toEqual({ inputTokens: 20, outputTokens: 10, totalCostUSD: 0.002 });
+  });
+
+  it('should pass files with the message they belong to', async () => {
+    const { executor, execute } = createStudioExecutor();
+    const session = new ChatSession(executor, { promptName: 'chat', variables: {}, messages: [] });
+    const files = [{ type: 'image_url', image_url: { url: 'https://example.com/cat.png' } }];
+
+    await session.send('What is this?', files);
+    await session.send('Thanks');
+
+    expect(execute.mock.calls[0][3]!.files).toBe(files);
+    expect(execute.mock.calls[1][3]!.files).toBeUndefined();
+  });
+
+  it('should not advance history when a send fails', async () => {
+    const { executor, execute } = createStudioExecutor();
+    const session = new ChatSession(executor, { promptName: 'chat', variables: {}, messages: [] });
+    await session.send('Hi');
+
+    execute.mockResolvedValueOnce({
+      ok: false,
+      status: 'failed' as const,
+      usage,
+      result: null,
+      messages: [{ role: 'user', content: 'partial' }]
+    } as any);
+    const result = await session.send('Again');
+
+    expect(result.ok).toBe(false);
+    expect(session.messages).toHaveLength(3);
+    expect(session.usage.inputTokens).toBe(20);
+  });
+
+  it('should reject concurrent sends', async () => {
+    const { executor } = createStudioExecutor();
+    const session = new ChatSession(executor, { promptName: 'chat', variables: {}, messages: [] });
+
+    const first = session.send('One');
+    await expect(session.send('Two')).rejects.toThrow('[ChatSession] send() called while a previous message is still running');
+    await first;
+  });
+
+  it('should round-trip through toJSON and fromJSON', async () => {
+    const { executor, execute } = createStudioExecutor();
+    const session = new ChatSession(executor, { promptName: 'chat', variables: { name: 'Ada' }, messages: [] });
+    await session.send('Hi');
+
+    const restored = ChatSession.fromJSON(executor, JSON.stringify(session));
+    expect(restored.toJSON()).toEqual(session.toJSON());
+
+    await restored.send('Still there?');
+    expect(execute.mock.calls[1][3]!.messages).toEqual(session.messages);
+  });
+
+  it('should continue a real execution after a tool call', async () => {
+    const manifest: Manifest = {
+      name: 'chat',
+      category: 'test',
+      description: 'Chat',
+      system: [{ name: 'main', content: 'You are a helpful assistant.' }],
+      user: [],
+      blocks: [],
+      variables: [],
+      tools: [{
+        type: 'function',
+        function: { name: 'reply', description: 'Reply', parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] } }
+      }],
+      models: [{
+        provider: 'mock',
+        name: 'scripted',
+        // Like a provider, reject a conversation with tool calls that have no result
+        script: (messages: Message[]) => {
+          messages.forEach((message, index) => {
+            for (const call of message.tool_calls || []) {
+              if (!messages.slice(index + 1).some(m => m.role === 'tool' && m.tool_call_id === call.id)) {
+                throw new Error(`Tool call ${call.id} has no result`);
+              }
+            }
+          });
+          const last = messages[messages.length - 1];
+          return { tool_calls: [{ name: 'reply', args: { text: `echo: ${last.content}` } }] };
+        }
+      }]
+    };
+    const executor = {
+      execute: async (_promptName: string, variables: any, toolRouter: any, options: any) => {
+        const execution = await createExecutor({ manifest, variables, toolRouter, credentials: {}, log: () => {}, ...options });
+        return execution.execute();
+      }
+    } as unknown as StudioExecutor;
+    const session = new ChatSession(executor, { promptName: 'chat', variables: {}, messages: [] });
+
+    const first = await session.send('Hi');
+    const second = await session.send('How are you?');
+
+    expect(first.result).toEqual({ text: 'echo: Hi' });
+    expect(second.ok).toBe(true);
+    expect(second.result).toEqual({ text: 'echo: How are you?' });
+    expect(session.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'tool', 'user', 'assistant', 'tool']);
+  });
+
+  it('should reject invalid state', () => {
+    const { executor } = createStudioExecutor();
+    expect(() => ChatSession.fromJSON(executor, { promptName: 'chat' } as any)).toThrow(
+      '[ChatSession] Invalid session state'
+    );
+  });
+});
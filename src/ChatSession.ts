@@ -0,0 +1,138 @@
+/**
+ * Chat Session
+ *
+ * Multi-turn conversation with a Studio prompt. Holds the message history
+ * and runs a new execution (with the full tool loop) for every user message.
+ */
+
+import type { StudioExecutor, ExecuteOptions } from './StudioExecutor.js';
+import { addUsage } from './usage.js';
+import type { ExecutionResult, Message, ToolRouter, Usage } from './types.js';
+
+/**
+ * Serializable session state returned by toJSON()
+ */
+export interface ChatSessionState {
+  promptName: string;
+  variables: Record<string, any>;
+  messages: Message[]; // Conversation history, starting with the system message
+  usage?: Usage; // Usage accumulated across all sends
+}
+
+/**
+ * Chat Session
+ *
+ * Create with studioExecutor.createSession(), restore with ChatSession.fromJSON()
+ */
+export class ChatSession {
+  private studioExecutor: StudioExecutor;
+  private toolRouter: ToolRouter;
+  private options?: ExecuteOptions;
+  private promptName: string;
+  private variables: Record<string, any>;
+  private history: Message[];
+  private totalUsage: Usage;
+  private pending = false;
+
+  constructor(
+    studioExecutor: StudioExecutor,
+    state: ChatSessionState,
+    toolRouter: ToolRouter = {},
+    options?: ExecuteOptions
+  ) {
+    this.studioExecutor = studioExecutor;
+    this.toolRouter = toolRouter;
+    this.options = options;
+    this.promptName = state.promptName;
+    this.variables = state.variables || {};
+    this.history = state.messages || [];
+    this.totalUsage = state.usage
+      ? { ...state.usage }
+      : { inputTokens: 0, outputTokens: 0, totalCostUSD: 0 };
+  }
+
+  /**
+   * Restore a session saved with toJSON()
+   * Tool router and options are not serialized and must be passed again
+   */
+  static fromJSON(
+    studioExecutor: StudioExecutor,
+    state: ChatSessionState | string,
+    toolRouter: ToolRouter = {},
+    options?: ExecuteOptions
+  ): ChatSession {
+    const parsed: ChatSessionState = typeof state === 'string' ? JSON.parse(state) : state;
+
+    if (!parsed || !parsed.promptName || !Array.isArray(parsed.messages)) {
+      throw new Error('[ChatSession] Invalid session state: promptName and messages are required');
+    }
+
+    return new ChatSession(studioExecutor, parsed, toolRouter, options);
+  }
+
+  /**
+   * Send a user message and run the agent until it answers
+   *
+   * The history only advances when the execution succeeds, so a failed
+   * send can be retried without leaving a dangling user message.
+   *
+   * @param userMessage - Message from the user
+   * @param files - Images or audio attached to this message
+   */
+  async send(userMessage: string, files?: ExecuteOptions['files']): Promise<ExecutionResult> {
+    if (this.pending) {
+      throw new Error('[ChatSession] send() called while a previous message is still running');
+    }
+
+    this.pending = true;
+    try {
+      const result = await this.studioExecutor.execute(
+        this.promptName,
+        this.variables,
+        this.toolRouter,
+        {
+          ...this.options,
+          messages: [...this.history],
+          userMessage,
+          files
+        }
+      );
+
+      addUsage(this.totalUsage, result.usage);
+
+      if (result.ok) {
+        this.history = result.messages;
+      }
+
+      return result;
+    } finally {
+      this.pending = false;
+    }
+  }
+
+  /**
+   * Conversation history, starting with the system message
+   */
+  get messages(): Message[] {
+    return [...this.history];
+  }
+
+  /**
+   * Usage accumulated across all sends, including failed ones
+   */
+  get usage(): Usage {
+    return { ...this.totalUsage };
+  }
+
+  /**
+   * Serializable session state for persistence
+   */
+  toJSON(): ChatSessionState {
+    return {
+      promptName: this.promptName,
+      variables: this.variables,
+      messages: this.history,
+      usage: this.usage
+    };
+  }
+}
@@ -323,4 +323,315 @@ describe('StudioExecutor', () => {
       expect(createExecutorCall.toolRouter).toBe(toolRouter);
     });
   });
+  describe('createSession', () => {
+    it('should run each message through execute with the session history', async () => {
+      const { createExecutor } = await import('./executorFactory.js');
+      const mockExecutor = {
+        execute: vi.fn().mockResolvedValue({
+          ok: true,
+          result: 'Hello!',
+          usage: { inputTokens: 10, outputTokens: 5, totalCostUSD: 0.001 },
+          messages: [
+            { role: 'system', content: 'System' },
+            { role: 'user', content: 'Hi' },
+            { role: 'assistant', content: 'Hello!' }
+          ],
+        }),
+      };
+      vi.mocked(createExecutor).mockResolvedValue(mockExecutor as any);
+
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(JSON.stringify({
+        manifest: {
+          name: 'chat',
+          system: [],
+          user: [],
+          blocks: [],
+          variables: [],
+          tools: [],
+          models: [{ provider: 'anthropic', name: 'claude-3-5-sonnet-20241022' }],
+        },
+        etag: 'test-etag',
+        exportedAt: '2024-01-01'
+      }));
+
+      const executor = await StudioExecutor.create({
+        credentials: mockCredentials,
+        config: mockConfig,
+      });
+
+      const session = executor.createSession('chat', { name: 'Ada' });
+      await session.send('Hi');
+      await session.send('How are you?');
+
+      const calls = vi.mocked(createExecutor).mock.calls;
+      expect(calls[0][0]).toMatchObject({ variables: { name: 'Ada' }, messages: [], userMessage: 'Hi' });
+      expect(calls[1][0].messages).toHaveLength(3);
+      expect(calls[1][0].userMessage).toBe('How are you?');
+    });
+  });
+
+  describe('promptTool', () => {
+    const childManifest = {
+      name: 'researcher',
+      system: [],
+      user: [],
+      blocks: [],
+      variables: [],
+      tools: [],
+      models: [{ provider: 'anthropic', name: 'claude-3-5-sonnet-20241022' }],
+    };
+
+    const setup = async (childResult: any) => {
+      const { createExecutor } = await import('./executorFactory.js');
+      const mockExecutor = { execute: vi.fn().mockResolvedValue(childResult) };
+      vi.mocked(createExecutor).mockResolvedValue(mockExecutor as any);
+
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(JSON.stringify({ manifest: childManifest, etag: 'child-etag', exportedAt: '2024-01-01' }));
+
+      return StudioExecutor.create({ credentials: mockCredentials, config: mockConfig });
+    };
+
+    const parentContext = (overrides: any = {}) => ({
+      toolCall: { id: 'call_1', name: 'research', args: {} },
+      signal: new AbortController().signal,
+      execution: {
+        executionId: 'parent-1',
+        promptName: 'orchestrator',
+        depth: 0,
+        maxDepth: 3,
+        tracing: { enabled: true, tags: ['prod'] },
+        addUsage: vi.fn(),
+        ...overrides
+      }
+    });
+
+    it('should run the prompt with the args as variables and return its result', async () => {
+      const usage = { inputTokens: 100, outputTokens: 20, totalCostUSD: 0.01 };
+      const executor = await setup({ ok: true, status: 'completed', result: { summary: 'Found it' }, usage, messages: [] });
+      const childRouter = { search: { execute: vi.fn() } };
+      const context = parentContext();
+
+      const output = await executor.promptTool('researcher', { toolRouter: childRouter }).execute({ topic: 'llamas' }, context);
+
+      expect(output).toEqual({ summary: 'Found it' });
+      expect(context.execution.addUsage).toHaveBeenCalledWith(usage);
+
+      const { createExecutor } = await import('./executorFactory.js');
+      const config = vi.mocked(createExecutor).mock.calls[0][0];
+      expect(config).toMatchObject({
+        variables: { topic: 'llamas' },
+        toolRouter: childRouter,
+        signal: context.signal,
+        depth: 1,
+        maxDepth: 3
+      });
+      expect(config.tracing).toMatchObject({
+        enabled: true,
+        tags: ['prod'],
+        promptName: 'researcher',
+        etag: 'child-etag',
+        parentExecutionId: 'parent-1',
+        parentToolCallId: 'call_1'
+      });
+    });
+
+    it('should map args to variables', async () => {
+      const executor = await setup({ ok: true, result: 'ok', usage: { inputTokens: 0, outputTokens: 0, totalCostUSD: 0 }, messages: [] });
+
+      await executor.promptTool('researcher', { variables: args => ({ query: args.topic, depth: 'shallow' }) })
+        .execute({ topic: 'llamas' }, parentContext());
+
+      const { createExecutor } = await import('./executorFactory.js');
+      expect(vi.mocked(createExecutor).mock.calls[0][0].variables).toEqual({ query: 'llamas', depth: 'shallow' });
+    });
+
+    it('should return failures as tool errors', async () => {
+      const usage = { inputTokens: 50, outputTokens: 0, totalCostUSD: 0.001 };
+      const executor = await setup({
+        ok: false,
+        status: 'failed',
+        error: { code: 'VARIABLE_MISSING', message: '[BaseExecutor] Required variable missing: topic (string)', retryable: false },
+        usage,
+        messages: []
+      });
+      const context = parentContext();
+
+      const output = await executor.promptTool('researcher').execute({}, context);
+
+      expect(output).toEqual({
+        completed: false,
+        error: true,
+        message: "Prompt 'researcher' failed: [BaseExecutor] Required variable missing: topic (string)"
+      });
+      expect(context.execution.addUsage).toHaveBeenCalledWith(usage);
+    });
+
+    it('should return a missing prompt as a tool error', async () => {
+      const executor = await setup({ ok: true, result: 'ok', usage: { inputTokens: 0, outputTokens: 0, totalCostUSD: 0 }, messages: [] });
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockRejectedValue(Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' }));
+      const context = parentContext();
+
+      const output = await executor.promptTool('missing-prompt').execute({}, context);
+
+      expect(output).toMatchObject({ completed: false, error: true });
+      expect(output.message).toMatch(/^Prompt 'missing-prompt' failed: Prompt file not found: .*missing-prompt\.json/);
+      expect(context.execution.addUsage).not.toHaveBeenCalled();
+    });
+
+    it('should stop at the maximum nesting depth', async () => {
+      const executor = await setup({ ok: true, result: 'ok', usage: { inputTokens: 0, outputTokens: 0, totalCostUSD: 0 }, messages: [] });
+
+      const output = await executor.promptTool('researcher').execute({}, parentContext({ depth: 3 }));
+
+      expect(output).toEqual({
+        completed: false,
+        error: true,
+        message: "Cannot run prompt 'researcher': maximum nesting depth of 3 reached"
+      });
+      const { createExecutor } = await import('./executorFactory.js');
+      expect(createExecutor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stream', () => {
+    it('should yield events from the executor stream', async () => {
+      const { createExecutor } = await import('./executorFactory.js');
+      const events = [
+        { type: 'turn_start', turn: 1 },
+        { type: 'text_delta', turn: 1, text: 'Hello' },
+        { type: 'result', result: { ok: true, result: 'Hello', usage: { inputTokens: 1, outputTokens: 1, totalCostUSD: 0 }, messages: [] } }
+      ];
+      const mockExecutor = {
+        executeStream: vi.fn(async function* () {
+          yield* events;
+        }),
+      };
+      vi.mocked(createExecutor).mockResolvedValue(mockExecutor as any);
+
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(JSON.stringify({
+        manifest: {
+          name: 'test-prompt',
+          system: [],
+          user: [],
+          blocks: [],
+          variables: [],
+          tools: [],
+          models: [{ provider: 'anthropic', name: 'claude-3-5-sonnet-20241022' }],
+        },
+        etag: 'test-etag',
+        exportedAt: '2024-01-01'
+      }));
+
+      const executor = await StudioExecutor.create({
+        credentials: mockCredentials,
+        config: mockConfig,
+      });
+
+      const received: any[] = [];
+      for await (const event of executor.stream('test-prompt', { input: 'test' })) {
+        received.push(event);
+      }
+
+      expect(mockExecutor.executeStream).toHaveBeenCalled();
+      expect(received).toEqual(events);
+    });
+  });
+
+  describe('estimate', () => {
+    it('should estimate the prompt with its variables and files without executing', async () => {
+      const { createExecutor } = await import('./executorFactory.js');
+      const estimate = {
+        provider: 'anthropic',
+        model: 'claude-3-5-sonnet-20241022',
+        inputTokens: 1200,
+        outputTokens: { min: 50, max: 4096 },
+        costUSD: { min: 0.00435, max: 0.06504 }
+      };
+      const mockExecutor = { estimate: vi.fn().mockResolvedValue(estimate), execute: vi.fn() };
+      vi.mocked(createExecutor).mockResolvedValue(mockExecutor as any);
+
+      const { readFile } = await import('fs/promises');
+      vi.mocked(readFile).mockResolvedValue(JSON.stringify({
+        manifest: {
+          name: 'test-prompt',
+          system: [],
+          user: [],
+          blocks: [],
+          variables: [],
+          tools: [],
+          models: [{ provider: 'anthropic', name: 'claude-3-5-sonnet-20241022' }],
+        },
+        etag: 'test-etag',
+        exportedAt: '2024-01-01'
+      }));
+
+      const executor = await StudioExecutor.create({
+        credentials: mockCredentials,
+        config: mockConfig,
+      });
+      const files = [{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }];
+
+      const result = await executor.estimate('test-prompt', { input: 'test' }, files);
+
+      expect(result).toEqual(estimate);
+      expect(mockExecutor.execute).not.toHaveBeenCalled();
+      expect(vi.mocked(createExecutor)).toHaveBeenCalledWith(expect.objectContaining({
+        variables: { input: 'test' },
+        toolRouter: {},
+        files,
+        model: { provider: 'anthropic', name: 'claude-3-5-sonnet-20241022' }
+      }));
+    });
+
+    describe('with model sampling', () => {
+      const models = [
+        { provider: 'anthropic', name: 'claude-sonnet-4-5', weight: 1 },
+        { provider: 'openai', name: 'gpt-4o', weight: 1 }
+      ];
+
+      const setup = async () => {
+        const { createExecutor } = await import('./executorFactory.js');
+        vi.mocked(createExecutor).mockResolvedValue({ estimate: vi.fn().mockResolvedValue({}) } as any);
+
+        const { readFile } = await import('fs/promises');
+        vi.mocked(readFile).mockResolvedValue(JSON.stringify({
+          manifest: { name: 'sampled', system: [], user: [], blocks: [], variables: [], tools: [], models, modelSampling: true },
+          etag: 'test-etag',
+          exportedAt: '2024-01-01'
+        }));
+
+        const executor = await StudioExecutor.create({ credentials: mockCredentials, config: mockConfig });
+        const estimatedModels = () => vi.mocked(createExecutor).mock.calls.map(([config]) => config.model?.name);
+        return { executor, estimatedModels };
+      };
+
+      it('should estimate the first model instead of sampling', async () => {
+        const { executor, estimatedModels } = await setup();
+
+        for (let i = 0; i < 5; i++) {
+          await executor.estimate('sampled');
+        }
+
+        expect(estimatedModels()).toEqual(Array(5).fill('claude-sonnet-4-5'));
+      });
+
+      it('should estimate a chosen model or the model sampled with a seed', async () => {
+        const { executor, estimatedModels } = await setup();
+        const { selectModel } = await import('./modelSelection.js');
+
+        await executor.estimate('sampled', {}, undefined, { model: 'gpt-4o' });
+        await executor.estimate('sampled', {}, undefined, { samplingSeed: 'user-42' });
+        await executor.estimate('sampled', {}, undefined, { samplingSeed: 'user-42' });
+
+        const seeded = selectModel(models as any, 'user-42').name;
+        expect(estimatedModels()).toEqual(['gpt-4o', seeded, seeded]);
+        await expect(executor.estimate('sampled', {}, undefined, { model: 'gpt-5' }))
+          .rejects.toThrow("[StudioExecutor] Model 'gpt-5' is not one of the models of prompt 'sampled'");
+      });
+    });
+  });
 });
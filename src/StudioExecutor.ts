@@ -8,7 +8,11 @@
 import { loadConfig, type StudioConfig } from './cli/utils/config.js';
 import { createApiClient, StudioApiClient } from './cli/utils/api.js';
 import { createExecutor } from './executorFactory.js';
-import type { ProviderCredentials, ExecutionResult, InvokeOptions, Manifest } from './types.js';
+import type BaseExecutor from './BaseExecutor.js';
+import { ChatSession } from './ChatSession.js';
+import { AbortError } from './abort.js';
+import { selectModel } from './modelSelection.js';
+import type { ProviderCredentials, ExecutionResult, InvokeOptions, Manifest, Message, StreamEvent, RetryPolicy, ToolRouter, CheckpointStore, ExecutionCheckpoint, ContextWindowConfig, ExecutorMiddleware, ToolHandler, ToolContext, ToolErrorPolicy, PromptCacheConfig, ExecutionEstimate, ModelConfig } from './types.js';
 
 export interface StudioExecutorConfig {
   credentials: ProviderCredentials;
@@ -21,12 +25,59 @@ export interface ExecuteOptions extends InvokeOptions {
   tracing?: {
     enabled: boolean;
     tags?: string[];
+    parentExecutionId?: string; // Set by prompt tools to link nested traces
+    parentToolCallId?: string;
   };
   files?: Array<{
     type: string;
     image_url?: { url: string };
     input_audio?: { data: string; format: string };
   }>;
+  samplingSeed?: number | string; // Seed for reproducible model selection when the prompt uses modelSampling
+  parallelToolCalls?: boolean; // Execute the tool calls of one turn concurrently (default: false)
+  toolConcurrency?: number; // Maximum concurrent tool calls when parallelToolCalls is enabled (default: 4)
+  signal?: AbortSignal; // Cancels in-flight provider calls and tools
+  timeoutMs?: number; // Maximum duration of the whole execution
+  turnTimeoutMs?: number; // Maximum duration of a single LLM turn
+  retry?: RetryPolicy | false; // Retry policy for transient provider errors (false disables retries)
+  maxCostUSD?: number; // Cost budget for the execution
+  maxInputTokens?: number; // Input token budget for the execution
+  maxOutputTokens?: number; // Output token budget for the execution
+  maxTurns?: number; // Maximum LLM turns for the execution
+  maxMessages?: number; // Maximum messages the execution may add; continued messages don't count (default: 50)
+  messages?: Message[]; // Continue a previous conversation instead of building the initial messages
+  userMessage?: string; // Chat message for this execution (see createSession)
+  executionId?: string; // Key for checkpoints (default: random UUID when checkpointing)
+  checkpointStore?: CheckpointStore; // Save a checkpoint after every turn (see resumeExecution)
+  onCheckpoint?: (checkpoint: ExecutionCheckpoint) => Promise<void> | void; // Called with every checkpoint
+  validateToolArgs?: boolean; // Validate tool args against the tool's parameters schema (default: true)
+  validateOutput?: boolean; // Validate the terminating tool's output against its schema (default: true)
+  maxOutputRepairs?: number; // Corrective retries for invalid output before failing (default: 2)
+  contextWindow?: ContextWindowConfig; // Keep long runs and chat histories within the model's context window
+  middleware?: ExecutorMiddleware[]; // Hooks around LLM calls and tool execution (caching, redaction, guardrails, metrics)
+  terminatingTools?: string[]; // Tools that end the run (overrides the prompt's terminatingTools)
+  toolErrorPolicy?: ToolErrorPolicy; // Handling of failing tools (overrides the prompt's policy field by field)
+  promptCache?: boolean | PromptCacheConfig; // Prompt cache breakpoints (overrides the prompt's promptCache)
+  depth?: number; // Nesting depth (set by prompt tools)
+  maxDepth?: number; // Maximum nesting depth of prompt tools (default: 3)
+}
+
+/**
+ * Options for promptTool()
+ */
+export interface PromptToolOptions {
+  toolRouter?: ToolRouter; // Tools of the nested prompt
+  variables?: (args: Record<string, any>) => Record<string, any>; // Map tool args to variables (default: args as-is)
+  options?: ExecuteOptions; // Execution options of the nested prompt (signal, tracing and depth come from the parent)
+}
+
+/**
+ * Options for estimate()
+ * Without them the prompt's first model is estimated - the model sampler is never drawn from.
+ */
+export interface EstimateOptions {
+  model?: string; // Name of one of the prompt's models to estimate
+  samplingSeed?: number | string; // Estimate the model an execution with this seed would sample (modelSampling)
 }
 
 /**
@@ -89,13 +140,175 @@ export class StudioExecutor {
    * @param variables - Variables to pass to the prompt
    * @param toolRouter - Tool router with execute methods { toolName: { execute: (args) => Promise<any> } }
    * @param options - Execution options (can override apiMode)
+   * @typeParam T - Type of result (the terminating tool's args, validated against its schema)
+   */
+  async execute<T = any>(
+    promptName: string,
+    variables: Record<string, any> = {},
+    toolRouter: Record<string, { execute: (args: any) => Promise<any> }> = {},
+    options?: ExecuteOptions
+  ): Promise<ExecutionResult<T>> {
+    const executor = await this.createPromptExecutor(promptName, variables, toolRouter, options);
+
+    // Execute
+    return executor.execute<T>();
+  }
+
+  /**
+   * Estimate tokens and cost of a prompt's first LLM call without executing it
+   *
+   * Loads and renders the prompt like execute(); no model is called. Use it to
+   * size batch jobs before running them.
+   *
+   * @param promptName - Name of the prompt to estimate
+   * @param variables - Variables to pass to the prompt
+   * @param files - Images or audio that would be attached to the user message
+   * @param options - Model to estimate (default: the prompt's first model)
+   */
+  async estimate(
+    promptName: string,
+    variables: Record<string, any> = {},
+    files?: ExecuteOptions['files'],
+    options: EstimateOptions = {}
+  ): Promise<ExecutionEstimate> {
+    const executor = await this.createPromptExecutor(promptName, variables, {}, { files }, manifest => {
+      if (options.model) {
+        const model = manifest.models.find(candidate => candidate.name === options.model);
+        if (!model) {
+          throw new Error(`[StudioExecutor] Model '${options.model}' is not one of the models of prompt '${promptName}'`);
+        }
+        return model;
+      }
+
+      return manifest.modelSampling && options.samplingSeed !== undefined
+        ? selectModel(manifest.models, options.samplingSeed)
+        : manifest.models[0];
+    });
+
+    return executor.estimate();
+  }
+
+  /**
+   * Execute a prompt by name, streaming events as the execution progresses
+   *
+   * Yields turn boundaries, text and tool-call deltas and tool results.
+   * The last event is { type: 'result', result } with the ExecutionResult.
+   *
+   * @param promptName - Name of the prompt to execute
+   * @param variables - Variables to pass to the prompt
+   * @param toolRouter - Tool router with execute methods { toolName: { execute: (args) => Promise<any> } }
+   * @param options - Execution options (can override apiMode)
    */
-  async execute(
+  async *stream(
     promptName: string,
     variables: Record<string, any> = {},
     toolRouter: Record<string, { execute: (args: any) => Promise<any> }> = {},
     options?: ExecuteOptions
-  ): Promise<ExecutionResult> {
+  ): AsyncGenerator<StreamEvent, void, undefined> {
+    const executor = await this.createPromptExecutor(promptName, variables, toolRouter, options);
+
+    yield* executor.executeStream();
+  }
+
+  /**
+   * Start a multi-turn chat with a prompt
+   *
+   * Each send() appends the user message to the history and runs the tool loop
+   * until the agent answers. Persist with toJSON() and restore with ChatSession.fromJSON().
+   *
+   * @param promptName - Name of the prompt to chat with
+   * @param variables - Variables to pass to the prompt (fixed for the session)
+   * @param toolRouter - Tool router with execute methods { toolName: { execute: (args) => Promise<any> } }
+   * @param options - Execution options applied to every send()
+   */
+  createSession(
+    promptName: string,
+    variables: Record<string, any> = {},
+    toolRouter: ToolRouter = {},
+    options?: ExecuteOptions
+  ): ChatSession {
+    return new ChatSession(this, { promptName, variables, messages: [] }, toolRouter, options);
+  }
+
+  /**
+   * Tool handler that runs another prompt (agent composition)
+   *
+   * Declare a tool in the calling prompt and route it here. The tool args become the
+   * nested prompt's variables and its result becomes the tool output. The nested usage
+   * is added to the caller's usage, its traces link to the caller's execution, and it is
+   * cancelled with the caller. Failures (including exceeding maxDepth, an unknown prompt
+   * or missing credentials) are returned to the calling model as tool errors.
+   *
+   * @param promptName - Name of the prompt to run
+   * @param toolOptions - Nested tool router, args-to-variables mapping and execution options
+   */
+  promptTool(promptName: string, toolOptions: PromptToolOptions = {}): ToolHandler {
+    const { toolRouter = {}, variables = (args: Record<string, any>) => args, options } = toolOptions;
+
+    return {
+      execute: async (args: Record<string, any>, context?: ToolContext) => {
+        const parent = context?.execution;
+        const depth = (parent?.depth ?? 0) + 1;
+        const maxDepth = options?.maxDepth ?? parent?.maxDepth ?? 3;
+
+        if (depth > maxDepth) {
+          return {
+            completed: false,
+            error: true,
+            message: `Cannot run prompt '${promptName}': maximum nesting depth of ${maxDepth} reached`
+          };
+        }
+
+        const tracing = options?.tracing ?? (parent?.tracing?.enabled ? { enabled: true, tags: parent.tracing.tags } : undefined);
+
+        // Loading the prompt and creating its executor throw (unknown prompt, missing credentials)
+        let result: ExecutionResult;
+        try {
+          result = await this.execute(promptName, variables(args), toolRouter, {
+            ...options,
+            signal: context?.signal ?? options?.signal,
+            depth,
+            maxDepth,
+            tracing: tracing && {
+              ...tracing,
+              parentExecutionId: parent?.executionId,
+              parentToolCallId: context?.toolCall.id
+            }
+          });
+        } catch (error: any) {
+          if (error instanceof AbortError) throw error;
+          return {
+            completed: false,
+            error: true,
+            message: `Prompt '${promptName}' failed: ${error.message}`
+          };
+        }
+
+        parent?.addUsage(result.usage);
+
+        if (!result.ok) {
+          return {
+            completed: false,
+            error: true,
+            message: `Prompt '${promptName}' failed: ${result.error?.message ?? result.status}`
+          };
+        }
+
+        return result.result;
+      }
+    };
+  }
+
+  /**
+   * Load a prompt and create its provider-specific executor
+   */
+  private async createPromptExecutor(
+    promptName: string,
+    variables: Record<string, any>,
+    toolRouter: Record<string, { execute: (args: any) => Promise<any> }>,
+    options?: ExecuteOptions,
+    pickModel?: (manifest: Manifest) => ModelConfig // Model to run instead of sampling or the first model
+  ): Promise<BaseExecutor> {
     // Determine whether to use API or filesystem
     const useApi = options?.apiMode !== undefined
       ? options.apiMode
@@ -122,22 +335,22 @@ export class StudioExecutor {
         promptName: promptName,
         etag: etag,
         tags: options.tracing.tags,
+        parentExecutionId: options.tracing.parentExecutionId,
+        parentToolCallId: options.tracing.parentToolCallId,
       } : undefined,
       files: options?.files, // Pass files through for vision/audio
     };
 
     // Create provider-specific executor
-    const executor = await createExecutor({
+    return createExecutor({
       manifest,
       credentials: this.credentials,
       variables,
       toolRouter,
       studioApiClient: this.client, // Pass API client for model pricing
       ...enrichedOptions,
+      ...(pickModel && { model: pickModel(manifest) }),
     });
-
-    // Execute
-    return executor.execute();
   }
 
   /**
@@ -0,0 +1,97 @@
+/**
+ * Abort Utilities
+ *
+ * Helpers for cancelling executions, provider calls and tools with AbortSignal
+ */
+
+/**
+ * Why an execution was aborted
+ */
+export type AbortReason = 'cancelled' | 'timeout';
+
+/**
+ * Error thrown when an operation is interrupted by an abort signal
+ */
+export class AbortError extends Error {
+  readonly reason: AbortReason;
+
+  constructor(reason: AbortReason, message?: string) {
+    super(message || (reason === 'timeout' ? 'Operation timed out' : 'Operation cancelled'));
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Get the AbortReason a signal was aborted with (defaults to 'cancelled')
+ */
+export function getAbortReason(signal: AbortSignal): AbortReason {
+  const reason = signal.reason;
+  if (reason instanceof AbortError) {
+    return reason.reason;
+  }
+  return reason === 'timeout' ? 'timeout' : 'cancelled';
+}
+
+/**
+ * Reject with an AbortError as soon as the signal aborts
+ * Used around calls that may ignore the signal (hung tools, mocked SDKs)
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    // Avoid unhandled rejections from the abandoned promise
+    promise.catch(() => {});
+    return Promise.reject(new AbortError(getAbortReason(signal)));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortError(getAbortReason(signal)));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Create a child controller that aborts when the parent signal aborts
+ * or after timeoutMs (with reason 'timeout'). Call dispose() when done.
+ */
+export function createChildAbort(
+  parent: AbortSignal,
+  timeoutMs?: number
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+
+  const onParentAbort = () => controller.abort(parent.reason);
+  if (parent.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (timeoutMs !== undefined && timeoutMs > 0) {
+    timer = setTimeout(() => controller.abort(new AbortError('timeout')), timeoutMs);
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      parent.removeEventListener('abort', onParentAbort);
+      if (timer) clearTimeout(timer);
+    }
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Cassette Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import BaseExecutor from './BaseExecutor.js';
+import { Cassette, hashRequest } from './cassette.js';
+import type { Manifest, InvokeResult } from './types.js';
+
+const manifest: Manifest = {
+  name: 'agent',
+  category: 'test',
+  description: 'Test',
+  system: [{ name: 'main', content: 'You are a research agent.' }],
+  user: [{ name: 'main', content: 'Research {topic}' }],
+  blocks: [],
+  variables: [{ name: 'topic', type: 'string', required: true }],
+  tools: [
+    {
+      type: 'function',
+      function: {
+        name: 'search',
+        description: 'Search',
+        parameters: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] }
+      }
+    },
+    {
+      type: 'function',
+      function: {
+        name: 'finish_agent_run',
+        description: 'Finish',
+        parameters: { type: 'object', properties: { summary: { type: 'string' } } }
+      }
+    }
+  ],
+  models: [{ provider: 'anthropic', name: 'claude-sonnet-4-5' }]
+};
+
+const responses: InvokeResult[] = [
+  {
+    message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'search', args: { query: 'llamas' } }] },
+    usage: { input_tokens: 100, output_tokens: 10 },
+    finishReason: 'tool_calls'
+  },
+  {
+    message: { role: 'assistant', content: '', tool_calls: [{ id: 'call_2', name: 'finish_agent_run', args: { summary: 'Llamas are great' } }] },
+    usage: { input_tokens: 150, output_tokens: 20 },
+    finishReason: 'tool_calls'
+  }
+];
+
+class ProviderExecutor extends BaseExecutor {
+  invoke = vi.fn(async () => responses[this.invoke.mock.calls.length - 1]);
+
+  hasToolCalls(message: any) {
+    return Boolean(message?.tool_calls?.length);
+  }
+}
+
+const createExecutor = (cassette: Cassette, topic = 'llamas') => new ProviderExecutor({
+  manifest,
+  variables: { topic },
+  toolRouter: { search: { execute: async () => ({ results: ['Llamas are camelids'] }) } },
+  credentials: { anthropic: { apiKey: 'test-key' } },
+  log: () => {},
+  retry: false,
+  middleware: [cassette]
+});
+
+describe('Cassette', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'cassette-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should record requests and replay them without calling the provider', async () => {
+    const path = join(directory, 'fixtures', 'agent.json');
+
+    const recorder = createExecutor(new Cassette(path, { mode: 'record' }));
+    const recorded = await recorder.execute();
+
+    expect(recorded.ok).toBe(true);
+    expect(recorder.invoke).toHaveBeenCalledTimes(2);
+
+    const file = JSON.parse(await readFile(path, 'utf-8'));
+    expect(file.version).toBe(1);
+    expect(Object.keys(file.entries)).toHaveLength(2);
+    const [first] = Object.values(file.entries) as any[];
+    expect(first.request.messages).toHaveLength(2);
+    expect(first.request.tools.map((t: any) => t.function.name)).toEqual(['search', 'finish_agent_run']);
+    expect(first.result).toEqual(responses[0]);
+
+    const player = createExecutor(new Cassette(path, { mode: 'replay' }));
+    const replayed = await player.execute();
+
+    expect(player.invoke).not.toHaveBeenCalled();
+    expect(replayed.result).toEqual(recorded.result);
+    expect(replayed.messages).toEqual(recorded.messages);
+    expect(replayed.usage).toEqual(recorded.usage);
+  });
+
+  it('should record the provider result even when it is edited later', async () => {
+    const path = join(directory, 'agent.json');
+    const cassette = new Cassette(path, { mode: 'record' });
+    const signal = new AbortController().signal;
+    const first = { promptName: 'agent', turn: 1, signal };
+    const second = { promptName: 'agent', turn: 2, signal };
+    const result = structuredClone(responses[0]);
+
+    await cassette.beforeInvoke([{ role: 'user', content: 'Research llamas' }], {}, first);
+    await cassette.afterInvoke(result, first);
+    // Like a beforeTool middleware editing the args before the next turn is recorded
+    result.message.tool_calls![0].args.query = 'edited';
+    await cassette.beforeInvoke([{ role: 'user', content: 'Research alpacas' }], {}, second);
+    await cassette.afterInvoke(structuredClone(responses[1]), second);
+
+    const file = JSON.parse(await readFile(path, 'utf-8'));
+    const [entry] = Object.values(file.entries) as any[];
+    expect(entry.result.message.tool_calls[0].args).toEqual({ query: 'llamas' });
+  });
+
+  it('should fail loudly on a request that was not recorded', async () => {
+    const path = join(directory, 'agent.json');
+    await createExecutor(new Cassette(path, { mode: 'record' })).execute();
+
+    const player = createExecutor(new Cassette(path, { mode: 'replay' }), 'alpacas');
+    const result = await player.execute();
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.message).toMatch(/^\[Cassette\] No recorded response in .*agent\.json for request [0-9a-f]{64} \(agent, turn 1, last message user: Research alpacas\)/);
+    expect(player.invoke).not.toHaveBeenCalled();
+  });
+
+  it('should fail when replaying a missing cassette', async () => {
+    const player = createExecutor(new Cassette(join(directory, 'missing.json'), { mode: 'replay' }));
+
+    const result = await player.execute();
+
+    expect(result.error?.message).toContain('[Cassette] Cassette not found');
+  });
+
+  it('should keep existing entries when recording', async () => {
+    const path = join(directory, 'agent.json');
+    await writeFile(path, JSON.stringify({ version: 1, entries: { other: { request: { messages: [] }, result: responses[0] } } }));
+
+    const cassette = new Cassette(path, { mode: 'record' });
+    await createExecutor(cassette).execute();
+
+    expect(await cassette.size()).toBe(3);
+  });
+
+  it('should hash requests independently of key order and the abort signal', async () => {
+    const messages = [{ role: 'user' as const, content: 'Hi' }];
+    const a = await hashRequest(messages, { tool_choice: 'auto', tools: [], signal: new AbortController().signal });
+    const b = await hashRequest([{ content: 'Hi', role: 'user' }], { tools: [], tool_choice: 'auto' });
+    const c = await hashRequest([{ role: 'user', content: 'Hello' }], { tools: [], tool_choice: 'auto' });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new Cassette('', { mode: 'record' })).toThrow('[Cassette] path is required');
+    expect(() => new Cassette('x.json', { mode: 'live' as any })).toThrow("[Cassette] mode must be 'record' or 'replay', got live");
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Cassette
+ *
+ * Record/replay middleware for provider calls (Node.js only).
+ * In record mode every LLM request and its normalized InvokeResult are written to a
+ * JSON fixture file, keyed by a hash of the request. In replay mode the fixtures answer
+ * the requests without calling the provider, and a request without a fixture fails the
+ * execution - so agent regression tests run deterministically and without network.
+ */
+
+import type { ExecutorMiddleware, InvokeOptions, InvokeResult, Message, MiddlewareContext } from './types.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Recorded request and its result
+ */
+export interface CassetteEntry {
+  request: { messages: Message[]; tools?: InvokeOptions['tools']; tool_choice?: InvokeOptions['tool_choice'] };
+  result: InvokeResult;
+}
+
+/**
+ * Fixture file contents
+ */
+export interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>; // By request hash
+}
+
+/**
+ * Record/replay middleware - add it to the execution's middleware
+ * Put it after middleware that changes requests, so the recorded request is the one sent.
+ */
+export class Cassette implements ExecutorMiddleware {
+  readonly name = 'cassette';
+  private path: string;
+  private mode: CassetteMode;
+  private file?: Promise<CassetteFile>;
+  // Request of each turn being recorded, by middleware context (one per turn)
+  private pending = new WeakMap<MiddlewareContext, { hash: string; request: CassetteEntry['request'] }>();
+  // Writes are chained so concurrent executions don't interleave them
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string, options: { mode: CassetteMode }) {
+    if (!path) {
+      throw new Error('[Cassette] path is required');
+    }
+    if (options?.mode !== 'record' && options?.mode !== 'replay') {
+      throw new Error(`[Cassette] mode must be 'record' or 'replay', got ${options?.mode}`);
+    }
+    this.path = path;
+    this.mode = options.mode;
+  }
+
+  async beforeInvoke(messages: Message[], options: InvokeOptions, context: MiddlewareContext): Promise<{ result: InvokeResult } | void> {
+    const hash = await hashRequest(messages, options);
+
+    if (this.mode === 'record') {
+      // Copied now - the execution keeps appending to its messages
+      const request = JSON.parse(JSON.stringify({ messages, tools: options.tools, tool_choice: options.tool_choice }));
+      this.pending.set(context, { hash, request });
+      return;
+    }
+
+    const entry = (await this.load()).entries[hash];
+    if (!entry) {
+      const last = messages[messages.length - 1];
+      const preview = typeof last?.content === 'string' ? last.content.slice(0, 80) : JSON.stringify(last?.content ?? '').slice(0, 80);
+      throw new Error(
+        `[Cassette] No recorded response in ${this.path} for request ${hash} (${context.promptName}, turn ${context.turn}, last message ${last?.role}: ${preview}). Re-record with mode 'record'.`
+      );
+    }
+
+    return { result: structuredClone(entry.result) };
+  }
+
+  async afterInvoke(result: InvokeResult, context: MiddlewareContext): Promise<void> {
+    const recording = this.pending.get(context);
+    if (!recording) return;
+    this.pending.delete(context);
+
+    // Copied now - middleware and approval edits change the result's tool calls in place
+    const file = await this.load();
+    file.entries[recording.hash] = { request: recording.request, result: structuredClone(result) };
+    await this.save();
+  }
+
+  /**
+   * Number of recorded requests
+   */
+  async size(): Promise<number> {
+    return Object.keys((await this.load()).entries).length;
+  }
+
+  /**
+   * Load the fixture file once
+   * A missing file is empty in record mode and an error in replay mode
+   */
+  private load(): Promise<CassetteFile> {
+    this.file ??= (async () => {
+      const { readFile } = await import('fs/promises');
+      try {
+        const file = JSON.parse(await readFile(this.path, 'utf-8'));
+        if (file.version !== 1) {
+          throw new Error(`[Cassette] Unsupported cassette version in ${this.path}: ${file.version}`);
+        }
+        return file;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT' && this.mode === 'record') {
+          return { version: 1, entries: {} };
+        }
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new Error(`[Cassette] Cassette not found: ${this.path}. Record it first with mode 'record'.`);
+        }
+        throw error;
+      }
+    })();
+    return this.file;
+  }
+
+  /**
+   * Write the fixture file (write then rename, like FileCheckpointStore)
+   */
+  private save(): Promise<void> {
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      const { mkdir, writeFile, rename } = await import('fs/promises');
+      const { dirname } = await import('path');
+      const file = await this.load();
+
+      await mkdir(dirname(this.path), { recursive: true });
+      const tempPath = `${this.path}.tmp`;
+      await writeFile(tempPath, JSON.stringify(file, null, 2), 'utf-8');
+      await rename(tempPath, this.path);
+    });
+    return this.writing;
+  }
+}
+
+/**
+ * Hash of the parts of a request that determine the response
+ * The abort signal and key order don't affect the hash.
+ */
+export async function hashRequest(messages: Message[], options: InvokeOptions): Promise<string> {
+  const request = { messages, tools: options.tools, tool_choice: options.tool_choice };
+  const data = new TextEncoder().encode(stableStringify(request));
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same way
+ */
+function stableStringify(value: any): string {
+  return JSON.stringify(value, (_key, current) => {
+    if (current && typeof current === 'object' && !Array.isArray(current)) {
+      return Object.fromEntries(Object.keys(current).sort().map(key => [key, current[key]]));
+    }
+    return current;
+  });
+}
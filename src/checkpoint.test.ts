@@ -0,0 +1,120 @@
+/**
+ * Checkpoint Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resumeExecution, MemoryCheckpointStore, FileCheckpointStore } from './checkpoint.js';
+import type { ExecutionCheckpoint } from './types.js';
+
+vi.mock('./executorFactory.js', () => ({
+  createExecutor: vi.fn(),
+}));
+
+const primaryModel = { provider: 'anthropic' as const, name: 'claude-sonnet-4-5' };
+const fallbackModel = { provider: 'openai' as const, name: 'gpt-4o' };
+
+const checkpoint: ExecutionCheckpoint = {
+  version: 1,
+  executionId: 'exec/1',
+  turn: 2,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  manifest: {
+    name: 'agent',
+    category: 'test',
+    description: 'Test',
+    system: [],
+    user: [],
+    blocks: [],
+    variables: [],
+    tools: [],
+    models: [primaryModel, fallbackModel]
+  },
+  etag: 'etag-1',
+  variables: { task: 'research' },
+  model: { ...fallbackModel },
+  messages: [{ role: 'system', content: 'System' }],
+  usage: { inputTokens: 200, outputTokens: 20, totalCostUSD: 0.01 },
+  turns: [],
+  toolCalls: [],
+  toolErrorCount: {}
+};
+
+describe('checkpoint', () => {
+  describe('resumeExecution', () => {
+    it('should create an executor from the checkpoint and execute it', async () => {
+      const { createExecutor } = await import('./executorFactory.js');
+      const execute = vi.fn().mockResolvedValue({ ok: true, result: 'done' });
+      vi.mocked(createExecutor).mockResolvedValue({ execute } as any);
+      const toolRouter = { search: { execute: vi.fn() } };
+      const credentials = { openai: { apiKey: 'test-key' } };
+
+      const result = await resumeExecution(checkpoint, { toolRouter, credentials });
+
+      expect(result.result).toBe('done');
+      const config = vi.mocked(createExecutor).mock.calls[0][0];
+      expect(config).toMatchObject({
+        toolRouter,
+        credentials,
+        manifest: checkpoint.manifest,
+        variables: { task: 'research' },
+        resumeFrom: checkpoint
+      });
+      // The manifest's own model entry, so fallback order doesn't repeat it
+      expect(config.model).toEqual(checkpoint.manifest.models[1]);
+      expect(config.model).toBe(config.manifest.models[1]);
+      // A copy - resuming can't change the caller's checkpoint
+      expect(config.resumeFrom).not.toBe(checkpoint);
+    });
+  });
+
+  describe('MemoryCheckpointStore', () => {
+    it('should save, load and delete checkpoints', async () => {
+      const store = new MemoryCheckpointStore();
+
+      await store.save('exec/1', checkpoint);
+      const loaded = await store.load('exec/1');
+      expect(loaded).toEqual(checkpoint);
+      expect(loaded).not.toBe(checkpoint);
+
+      await store.delete('exec/1');
+      expect(await store.load('exec/1')).toBeUndefined();
+    });
+  });
+
+  describe('FileCheckpointStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = join(await mkdtemp(join(tmpdir(), 'studio-checkpoints-')), 'nested');
+    });
+
+    afterEach(async () => {
+      await rm(join(directory, '..'), { recursive: true, force: true });
+    });
+
+    it('should save, load and delete checkpoints as JSON files', async () => {
+      const store = new FileCheckpointStore(directory);
+
+      await store.save('exec/1', checkpoint);
+      expect(await readdir(directory)).toEqual(['exec_1.json']);
+      expect(await store.load('exec/1')).toEqual(checkpoint);
+
+      await store.delete('exec/1');
+      expect(await readdir(directory)).toEqual([]);
+    });
+
+    it('should return undefined for unknown executions', async () => {
+      const store = new FileCheckpointStore(directory);
+
+      expect(await store.load('missing')).toBeUndefined();
+      await expect(store.delete('missing')).resolves.toBeUndefined();
+    });
+
+    it('should require a directory', () => {
+      expect(() => new FileCheckpointStore('')).toThrow('[FileCheckpointStore] directory is required');
+    });
+  });
+});
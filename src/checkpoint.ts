@@ -0,0 +1,125 @@
+/**
+ * Checkpoints
+ *
+ * Checkpoint stores and resumeExecution() for continuing long-running
+ * executions after a process restart. BaseExecutor saves a checkpoint after
+ * every tool loop turn when given a checkpointStore (or onCheckpoint).
+ */
+
+import { createExecutor } from './executorFactory.js';
+import type { BaseExecutorConfig, CheckpointStore, ExecutionCheckpoint, ExecutionResult } from './types.js';
+
+/**
+ * Options for resumeExecution - any executor config except what the checkpoint provides
+ */
+export type ResumeOptions = Omit<BaseExecutorConfig, 'manifest' | 'variables' | 'messages' | 'model' | 'resumeFrom'>;
+
+/**
+ * Continue an execution from a checkpoint
+ *
+ * Runs the next LLM turn with the checkpoint's messages, usage and tool state
+ * on the model that was serving the execution. Tools and credentials are not
+ * part of the checkpoint and must be passed again.
+ *
+ * @param checkpoint - Checkpoint saved by a previous execution
+ * @param options - Tool router, credentials and other executor options
+ */
+export async function resumeExecution<T = any>(
+  checkpoint: ExecutionCheckpoint,
+  options: ResumeOptions
+): Promise<ExecutionResult<T>> {
+  // Copied so the execution never changes the caller's checkpoint, which may be resumed again
+  checkpoint = structuredClone(checkpoint);
+  const { manifest } = checkpoint;
+
+  // Use the manifest's own model entry so the fallback order doesn't list it twice
+  const model = manifest.models.find(
+    m => m.provider === checkpoint.model.provider && m.name === checkpoint.model.name
+  ) || checkpoint.model;
+
+  const executor = await createExecutor({
+    ...options,
+    manifest,
+    variables: checkpoint.variables,
+    model,
+    resumeFrom: checkpoint
+  });
+
+  return executor.execute<T>();
+}
+
+/**
+ * In-memory checkpoint store
+ * Survives executor failures but not process restarts - use for tests and single-process retries
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, string>();
+
+  async save(executionId: string, checkpoint: ExecutionCheckpoint): Promise<void> {
+    this.checkpoints.set(executionId, JSON.stringify(checkpoint));
+  }
+
+  async load(executionId: string): Promise<ExecutionCheckpoint | undefined> {
+    const stored = this.checkpoints.get(executionId);
+    return stored ? JSON.parse(stored) : undefined;
+  }
+
+  async delete(executionId: string): Promise<void> {
+    this.checkpoints.delete(executionId);
+  }
+}
+
+/**
+ * Filesystem checkpoint store (Node.js only)
+ * One JSON file per execution in the given directory
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    if (!directory) {
+      throw new Error('[FileCheckpointStore] directory is required');
+    }
+    this.directory = directory;
+  }
+
+  async save(executionId: string, checkpoint: ExecutionCheckpoint): Promise<void> {
+    const { mkdir, writeFile, rename } = await import('fs/promises');
+    const filePath = await this.getFilePath(executionId);
+
+    await mkdir(this.directory, { recursive: true });
+
+    // Write then rename so a crash mid-write never leaves a truncated checkpoint
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(checkpoint), 'utf-8');
+    await rename(tempPath, filePath);
+  }
+
+  async load(executionId: string): Promise<ExecutionCheckpoint | undefined> {
+    const { readFile } = await import('fs/promises');
+    const filePath = await this.getFilePath(executionId);
+
+    try {
+      return JSON.parse(await readFile(filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(executionId: string): Promise<void> {
+    const { rm } = await import('fs/promises');
+    await rm(await this.getFilePath(executionId), { force: true });
+  }
+
+  /**
+   * Checkpoint file path, with the execution id sanitized for use as a filename
+   */
+  private async getFilePath(executionId: string): Promise<string> {
+    const { join } = await import('path');
+    const filename = executionId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return join(this.directory, `${filename}.json`);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateTokens,
+  estimateMessageTokens,
+  estimateRequestTokens,
+  dropToolResults,
+  trimToolOutputs,
+  findSummaryRange,
+  formatTranscript,
+  DROPPED_TOOL_RESULT
+} from './contextWindow.js';
+import type { Message } from './types.js';
+
+const big = JSON.stringify({ data: 'x'.repeat(4000) });
+
+const conversation = (): Message[] => [
+  { role: 'system', content: 'You are helpful.' },
+  { role: 'user', content: 'Do the task.' },
+  { role: 'assistant', content: '', tool_calls: [{ id: 'a', name: 'search', args: { q: 'one' } }, { id: 'b', name: 'search', args: { q: 'two' } }] },
+  { role: 'tool', tool_call_id: 'a', content: big },
+  { role: 'tool', tool_call_id: 'b', content: big },
+  { role: 'assistant', content: 'Looking further.', tool_calls: [{ id: 'c', name: 'search', args: { q: 'three' } }] },
+  { role: 'tool', tool_call_id: 'c', content: big }
+];
+
+describe('contextWindow', () => {
+  it('should estimate tokens from text length', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens({ a: 1 })).toBe(2);
+    expect(estimateTokens(undefined)).toBe(0);
+    expect(estimateMessageTokens({ role: 'user', content: [{ type: 'text', text: 'abcd' }, { type: 'image_url', image_url: { url: 'data:...' } }] }))
+      .toBe(4 + 1 + 1500);
+  });
+
+  it('should drop the oldest tool results until the messages fit', () => {
+    const messages = conversation();
+    const result = dropToolResults(messages, 1500, { keepRecent: 1 });
+
+    expect(result.map(m => m.content === DROPPED_TOOL_RESULT)).toEqual([false, false, false, true, true, false, false]);
+    expect(result.map(m => m.tool_call_id)).toEqual(messages.map(m => m.tool_call_id));
+    // The input is not modified
+    expect(messages[3].content).toBe(big);
+  });
+
+  it('should stop dropping once the messages fit', () => {
+    const result = dropToolResults(conversation(), 2500, { keepRecent: 0 });
+
+    expect(result.filter(m => m.content === DROPPED_TOOL_RESULT)).toHaveLength(1);
+  });
+
+  it('should count tokens with the provider\'s tokenizer ratio', () => {
+    const messages = conversation();
+
+    expect(estimateRequestTokens(messages, [], 'anthropic')).toBe(Math.ceil(estimateRequestTokens(messages) * 1.15));
+    expect(dropToolResults(messages, 2300, { keepRecent: 0 }).filter(m => m.content === DROPPED_TOOL_RESULT)).toHaveLength(1);
+    expect(dropToolResults(messages, 2300, { keepRecent: 0, provider: 'anthropic' }).filter(m => m.content === DROPPED_TOOL_RESULT)).toHaveLength(2);
+  });
+
+  it('should trim tool outputs to valid JSON', () => {
+    const result = trimToolOutputs(conversation(), 0, { keepRecent: 1, maxTokens: 10 });
+
+    expect(JSON.parse(result[3].content as string)).toEqual({ truncated: big.slice(0, 40), omittedChars: big.length - 40 });
+    expect(result[6].content).toBe(big);
+  });
+
+  it('should keep tool results with their tool calls when choosing what to summarize', () => {
+    // Keeping 3 messages would cut between the first tool call and its second result
+    expect(findSummaryRange(conversation(), 3)).toEqual({ start: 2, end: 5 });
+    expect(findSummaryRange(conversation(), 2)).toEqual({ start: 2, end: 5 });
+    expect(findSummaryRange(conversation(), 6)).toBeUndefined();
+  });
+
+  it('should format a transcript with tool calls', () => {
+    expect(formatTranscript(conversation().slice(1, 4))).toBe(
+      'user: Do the task.\n\nassistant called search({"q":"one"})\nassistant called search({"q":"two"})\n\ntool: ' + big
+    );
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Context Window
+ *
+ * Token estimation and the built-in strategies that shrink a message stack to
+ * fit the model's context window. Strategies never remove a tool result without
+ * its tool call (or the reverse), so the stack stays valid for every provider:
+ * - trim-tool-outputs: shorten large tool results
+ * - drop-tool-results: replace the oldest tool results with a placeholder
+ * - summarize: replace earlier turns with a summary (the LLM call is made by BaseExecutor)
+ */
+
+import type { Message, ToolDefinition } from './types.js';
+
+// Rough average for English text and JSON across tokenizers
+const CHARS_PER_TOKEN = 4;
+// Role and formatting overhead per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Flat estimate for images and audio, which providers bill by size rather than by bytes of base64
+const MEDIA_TOKENS = 1500;
+// Tokenizers that split text finer than the average (Claude's yields about 15% more tokens than OpenAI's)
+const PROVIDER_TOKEN_RATIOS: Record<string, number> = {
+  anthropic: 1.15
+};
+
+/**
+ * Placeholder content for a dropped tool result (valid JSON, which Bedrock requires)
+ */
+export const DROPPED_TOOL_RESULT = JSON.stringify({ removed: 'Tool result removed to fit the context window' });
+
+/**
+ * Estimate the tokens of a string or JSON value
+ */
+export function estimateTokens(value: any): number {
+  if (value === undefined || value === null) return 0;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the tokens of one message
+ */
+export function estimateMessageTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (typeof message.content === 'string') {
+    tokens += estimateTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      if (part?.type === 'text') {
+        tokens += estimateTokens(part.text ?? part.content);
+      } else if (part?.type === 'image_url' || part?.type === 'input_audio') {
+        tokens += MEDIA_TOKENS;
+      } else {
+        tokens += estimateTokens(part);
+      }
+    }
+  }
+
+  for (const toolCall of message.tool_calls || []) {
+    tokens += estimateTokens(toolCall.name) + estimateTokens(toolCall.args);
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate the input tokens of a request: messages plus tool definitions
+ * With a provider, the estimate is adjusted for that provider's tokenizer.
+ */
+export function estimateRequestTokens(messages: Message[], tools: ToolDefinition[] = [], provider?: string): number {
+  const tokens = messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0) + estimateTokens(tools.length ? tools : undefined);
+  return Math.ceil(tokens * tokenRatio(provider));
+}
+
+/**
+ * Tokens per estimated token for a provider's tokenizer
+ */
+function tokenRatio(provider?: string): number {
+  return PROVIDER_TOKEN_RATIOS[provider ?? ''] ?? 1;
+}
+
+/**
+ * Index of the first message that strategies may change
+ * The leading system and user messages (instructions and the task) are always kept.
+ */
+function firstChangeableIndex(messages: Message[]): number {
+  let index = 0;
+  while (index < messages.length && (messages[index].role === 'system' || messages[index].role === 'user')) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Shorten tool results above maxTokens, oldest first, until the request fits
+ * The last keepRecent messages are left alone.
+ */
+export function trimToolOutputs(
+  messages: Message[],
+  limit: number,
+  options: { keepRecent: number; maxTokens: number; tools?: ToolDefinition[]; provider?: string }
+): Message[] {
+  const result = [...messages];
+  const ratio = tokenRatio(options.provider);
+  let tokens = estimateRequestTokens(result, options.tools, options.provider);
+  const end = result.length - options.keepRecent;
+
+  for (let i = firstChangeableIndex(result); i < end && tokens > limit; i++) {
+    const message = result[i];
+    if (message.role !== 'tool' || typeof message.content !== 'string') continue;
+
+    const maxChars = options.maxTokens * CHARS_PER_TOKEN;
+    if (message.content.length <= maxChars) continue;
+
+    const trimmed = {
+      ...message,
+      content: JSON.stringify({
+        truncated: message.content.slice(0, maxChars),
+        omittedChars: message.content.length - maxChars
+      })
+    };
+    tokens += (estimateMessageTokens(trimmed) - estimateMessageTokens(message)) * ratio;
+    result[i] = trimmed;
+  }
+
+  return result;
+}
+
+/**
+ * Replace the oldest tool results with a placeholder until the request fits
+ * Tool messages are kept so every tool call still has its result.
+ * The last keepRecent messages are left alone.
+ */
+export function dropToolResults(
+  messages: Message[],
+  limit: number,
+  options: { keepRecent: number; tools?: ToolDefinition[]; provider?: string }
+): Message[] {
+  const result = [...messages];
+  const ratio = tokenRatio(options.provider);
+  let tokens = estimateRequestTokens(result, options.tools, options.provider);
+  const end = result.length - options.keepRecent;
+
+  for (let i = firstChangeableIndex(result); i < end && tokens > limit; i++) {
+    const message = result[i];
+    if (message.role !== 'tool' || message.content === DROPPED_TOOL_RESULT) continue;
+
+    const dropped = { ...message, content: DROPPED_TOOL_RESULT };
+    tokens += (estimateMessageTokens(dropped) - estimateMessageTokens(message)) * ratio;
+    result[i] = dropped;
+  }
+
+  return result;
+}
+
+/**
+ * Range of messages [start, end) to replace with a summary
+ * Starts after the leading instructions and task and ends before the last keepRecent
+ * messages, moved forward so no tool result is separated from its tool call.
+ * Returns undefined when there is nothing to summarize.
+ */
+export function findSummaryRange(messages: Message[], keepRecent: number): { start: number; end: number } | undefined {
+  const start = firstChangeableIndex(messages);
+  let end = Math.max(start, messages.length - keepRecent);
+
+  while (end < messages.length && messages[end].role === 'tool') {
+    end++;
+  }
+
+  // Summarizing a single message doesn't save anything
+  return end - start >= 2 ? { start, end } : undefined;
+}
+
+/**
+ * Text content of a message (text parts only for multimodal content)
+ */
+export function messageText(message: Message): string {
+  if (typeof message.content === 'string') return message.content;
+  return (message.content || []).filter((part: any) => part?.type === 'text').map((part: any) => part.text).join('\n');
+}
+
+/**
+ * Render messages as a plain-text transcript for the summarization prompt
+ */
+export function formatTranscript(messages: Message[]): string {
+  return messages.map(message => {
+    const lines: string[] = [];
+    const content = messageText(message);
+
+    if (content) {
+      lines.push(`${message.role}: ${content}`);
+    }
+    for (const toolCall of message.tool_calls || []) {
+      lines.push(`${message.role} called ${toolCall.name}(${JSON.stringify(toolCall.args)})`);
+    }
+
+    return lines.join('\n');
+  }).filter(Boolean).join('\n\n');
+}
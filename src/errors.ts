@@ -0,0 +1,67 @@
+/**
+ * Executor Errors
+ *
+ * Error taxonomy for failed executions. BaseExecutor throws ExecutorError
+ * internally and reports it as a serializable ExecutionError in ExecutionResult.error.
+ */
+
+import type { ExecutionError, ExecutionErrorCode } from './types.js';
+import { AbortError } from './abort.js';
+
+/**
+ * Error with a stable code for alerting and programmatic handling
+ */
+export class ExecutorError extends Error {
+  readonly code: ExecutionErrorCode;
+  readonly provider?: string;
+  readonly retryable: boolean;
+  readonly turn?: number;
+  readonly cause?: unknown;
+
+  constructor(
+    code: ExecutionErrorCode,
+    message: string,
+    details: { provider?: string; retryable?: boolean; turn?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'ExecutorError';
+    this.code = code;
+    this.provider = details.provider;
+    this.retryable = details.retryable ?? false;
+    this.turn = details.turn;
+    this.cause = details.cause;
+  }
+
+  /**
+   * Serializable form used in ExecutionResult.error
+   */
+  toJSON(): ExecutionError {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.provider !== undefined && { provider: this.provider }),
+      ...(this.turn !== undefined && { turn: this.turn })
+    };
+  }
+}
+
+/**
+ * Convert any error thrown during an execution into an ExecutionError
+ * Unknown errors keep their message and get the UNKNOWN code
+ */
+export function toExecutionError(error: any, defaults: { provider?: string; turn?: number } = {}): ExecutionError {
+  if (error instanceof ExecutorError) {
+    return error.toJSON();
+  }
+
+  if (error instanceof AbortError) {
+    return new ExecutorError(
+      error.reason === 'timeout' ? 'TIMEOUT' : 'CANCELLED',
+      error.reason === 'timeout' ? '[BaseExecutor] Execution timed out' : '[BaseExecutor] Execution cancelled',
+      defaults
+    ).toJSON();
+  }
+
+  return new ExecutorError('UNKNOWN', error?.message || String(error), defaults).toJSON();
+}
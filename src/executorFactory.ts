@@ -2,7 +2,7 @@
  * Executor Factory
  *
  * Creates provider-specific executor instances based on manifest configuration.
- * Supports: anthropic, openai, bedrock, deepseek, google
+ * Supports: anthropic, openai, bedrock, deepseek, google, mock (scripted, for tests)
  */
 
 import AnthropicExecutor from './providers/anthropic.js';
@@ -10,6 +10,8 @@ import OpenAIExecutor from './providers/openai.js';
 import BedrockExecutor from './providers/bedrock.js';
 import DeepSeekExecutor from './providers/deepseek.js';
 import GoogleExecutor from './providers/google.js';
+import MockExecutor from './providers/mock.js';
+import { selectModel } from './modelSelection.js';
 import type { BaseExecutorConfig } from './types.js';
 import type BaseExecutor from './BaseExecutor.js';
 
@@ -29,16 +31,22 @@ export async function createExecutor(config: BaseExecutorConfig): Promise<BaseEx
   }
 
   // Get primary model configuration
-  const primaryModel = manifest.models[0];
+  // Explicit model override (e.g. a fallback model) > weighted sample (modelSampling) > first model
+  let primaryModel = config.model || manifest.models[0];
+  if (!config.model && manifest.modelSampling) {
+    primaryModel = selectModel(manifest.models, config.samplingSeed);
+    log(`[executorFactory] Model sampling selected: ${primaryModel.provider}/${primaryModel.name}`);
+  }
   const provider = primaryModel.provider;
 
   if (!provider) {
     throw new Error('[executorFactory] modelConfig.models[0].provider is required');
   }
 
-  // Pass factory to executor for dynamic model switching
+  // Pass factory to executor for model fallback
   const configWithFactory: BaseExecutorConfig = {
     ...config,
+    model: primaryModel,
     executorFactory: createExecutor
   };
 
@@ -65,6 +73,10 @@ export async function createExecutor(config: BaseExecutorConfig): Promise<BaseEx
       log(`[executorFactory] Creating Google executor: ${primaryModel.name}`);
       return new GoogleExecutor(configWithFactory);
 
+    case 'mock':
+      log(`[executorFactory] Creating mock executor: ${primaryModel.name}`);
+      return new MockExecutor(configWithFactory);
+
     default:
       throw new Error(`[executorFactory] Unsupported provider: ${provider}`);
   }
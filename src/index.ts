@@ -6,18 +6,27 @@
  */
 
 // Main executor class (recommended)
-export { StudioExecutor, type StudioExecutorConfig, type ExecuteOptions } from './StudioExecutor.js';
+export { StudioExecutor, type StudioExecutorConfig, type ExecuteOptions, type PromptToolOptions, type EstimateOptions } from './StudioExecutor.js';
+export { ChatSession, type ChatSessionState } from './ChatSession.js';
 
 // Lower-level APIs
 export { createExecutor } from './executorFactory.js';
 export { default as BaseExecutor } from './BaseExecutor.js';
 export { default as ImageCache } from './ImageCache.js';
+export { selectModel, createSeededRandom } from './modelSelection.js';
+export { AbortError, type AbortReason } from './abort.js';
+export { DEFAULT_RETRY_POLICY } from './retry.js';
+export { ExecutorError } from './errors.js';
+export { resumeExecution, MemoryCheckpointStore, FileCheckpointStore, type ResumeOptions } from './checkpoint.js';
+export { estimateTokens, estimateRequestTokens } from './contextWindow.js';
+export { Cassette, hashRequest, type CassetteMode, type CassetteEntry, type CassetteFile } from './cassette.js';
 
 // Provider adapters
 export { default as AnthropicExecutor } from './providers/anthropic.js';
 export { default as OpenAIExecutor } from './providers/openai.js';
 export { default as BedrockExecutor } from './providers/bedrock.js';
 export { default as DeepSeekExecutor } from './providers/deepseek.js';
+export { default as MockExecutor } from './providers/mock.js';
 
 // Runtime API (for apiMode support)
 export {
@@ -57,20 +66,52 @@ export {
 export type {
   Manifest,
   ModelConfig,
+  MockTurn,
+  MockScript,
   ToolDefinition,
   ToolFunction,
   Scenario,
   Message,
+  MessageReasoning,
   ToolCall,
   ToolResult,
   ProviderCredentials,
   ToolRouter,
+  ToolHandler,
+  ToolContext,
+  ParentExecution,
+  ToolApprovalDecision,
+  ToolErrorPolicy,
+  PromptCacheConfig,
   ToolCallCallback,
+  ExecutorMiddleware,
+  MiddlewareContext,
+  BeforeInvokeResult,
+  BeforeToolResult,
   Usage,
   InvokeResult,
+  FinishReason,
   ExecutionResult,
+  ExecutionResultFields,
+  AbortedOutput,
+  ExecutionEstimate,
+  TurnRecord,
+  ToolCallRecord,
+  ExecutionStatus,
+  ExecutionError,
+  ExecutionErrorCode,
+  StreamDelta,
+  StreamDeltaCallback,
+  StreamEvent,
   BaseExecutorConfig,
+  ExecutionCheckpoint,
+  CheckpointStore,
+  RetryPolicy,
+  ErrorClassification,
   InvokeOptions,
+  ContextWindowConfig,
+  ContextStrategyName,
+  ContextStrategyFunction,
   VariableDefinition,
   ModelPricing
 } from './types.js';
@@ -209,7 +209,10 @@ describe('Integration Tests', () => {
       expect(result.result).toEqual({ result: 'Found AI information' });
       expect(result.usage.inputTokens).toBe(250); // 100 + 150
       expect(result.usage.outputTokens).toBe(80); // 50 + 30
-      expect(mockToolRouter.search.execute).toHaveBeenCalledWith({ query: 'AI information' });
+      expect(mockToolRouter.search.execute).toHaveBeenCalledWith(
+        { query: 'AI information' },
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
     });
 
     it('should handle tool errors gracefully', async () => {
@@ -360,6 +363,116 @@ describe('Integration Tests', () => {
     });
   });
 
+  describe('Model sampling', () => {
+    it('should create the executor for the sampled model', async () => {
+      const manifest = {
+        ...mockManifest,
+        modelSampling: true,
+        models: [
+          { provider: 'anthropic' as const, name: 'claude-sonnet-4-5', weight: 0 },
+          { provider: 'openai' as const, name: 'gpt-4o', weight: 1 }
+        ]
+      };
+
+      const executor = await createExecutor({
+        manifest,
+        credentials: { ...mockCredentials, openai: { apiKey: 'test-openai-key' } },
+        samplingSeed: 7
+      });
+
+      expect(executor['provider']).toBe('openai');
+      expect(executor['model']).toBe('gpt-4o');
+      // Remaining models stay available as fallbacks
+      expect(executor['modelConfig'].map((m: any) => m.name)).toEqual(['gpt-4o', 'claude-sonnet-4-5']);
+    });
+
+    it('should select the same model for the same seed', async () => {
+      const manifest = {
+        ...mockManifest,
+        modelSampling: true,
+        models: [
+          { provider: 'anthropic' as const, name: 'claude-sonnet-4-5' },
+          { provider: 'anthropic' as const, name: 'claude-haiku-4-5' }
+        ]
+      };
+
+      const models = await Promise.all([1, 2, 3].map(async () => {
+        const executor = await createExecutor({ manifest, credentials: mockCredentials, samplingSeed: 'abc' });
+        return executor['model'];
+      }));
+
+      expect(new Set(models).size).toBe(1);
+    });
+
+    it('should use the first model when modelSampling is off', async () => {
+      const executor = await createExecutor({
+        manifest: {
+          ...mockManifest,
+          models: [
+            { provider: 'anthropic', name: 'claude-sonnet-4-5', weight: 0 },
+            { provider: 'openai', name: 'gpt-4o', weight: 1 }
+          ]
+        },
+        credentials: mockCredentials
+      });
+
+      expect(executor['model']).toBe('claude-sonnet-4-5');
+    });
+  });
+
+  describe('Model fallback', () => {
+    it('should retry the turn on the next provider when the primary is rate limited', async () => {
+      const OpenAI = (await import('openai')).default;
+      const mockOpenAICreate = vi.fn().mockResolvedValue({
+        choices: [{
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'finish_agent_run', arguments: '{"result":"from openai"}' }
+            }]
+          }
+        }],
+        usage: { prompt_tokens: 40, completion_tokens: 10 }
+      });
+      vi.mocked(OpenAI).mockImplementationOnce(() => ({
+        chat: { completions: { create: mockOpenAICreate } }
+      }) as any);
+
+      const executor = await createExecutor({
+        manifest: {
+          ...mockManifest,
+          models: [
+            ...mockManifest.models,
+            { provider: 'openai', name: 'gpt-4o' }
+          ]
+        },
+        variables: { task: 'searching', userMessage: 'Find information about AI' },
+        toolRouter: mockToolRouter,
+        credentials: { ...mockCredentials, openai: { apiKey: 'test-openai-key' } },
+        retry: false
+      });
+
+      const rateLimitError = Object.assign(new Error('rate limited'), { status: 429 });
+      executor['client'].messages.create = vi.fn().mockRejectedValue(rateLimitError);
+
+      const result = await executor.execute();
+
+      expect(result.ok).toBe(true);
+      expect(result.result).toEqual({ result: 'from openai' });
+      expect(result.usage.inputTokens).toBe(40);
+      expect(result.turns).toMatchObject([
+        { turn: 1, provider: 'openai', model: 'gpt-4o', fallback: true }
+      ]);
+
+      // Message history is kept when switching providers
+      const openAIMessages = mockOpenAICreate.mock.calls[0][0].messages;
+      expect(openAIMessages[1].content).toBe('User: Find information about AI');
+    });
+  });
+
   describe('Scenario handling', () => {
     it('should store scenarios from manifest', async () => {
       const manifestWithScenarios = {
@@ -467,7 +580,8 @@ describe('Integration Tests', () => {
 
       const result = await executor.execute();
       expect(result.ok).toBe(false);
-      expect(result.error).toContain('Required variable missing: userMessage');
+      expect(result.error?.code).toBe('VARIABLE_MISSING');
+      expect(result.error?.message).toContain('Required variable missing: userMessage');
     });
 
     it('should populate variables in prompts', async () => {
@@ -0,0 +1,118 @@
+/**
+ * Middleware
+ *
+ * Runs the executor middleware chain (see ExecutorMiddleware in types.ts).
+ * Hooks run in array order. Each before-hook sees the values returned by the previous
+ * ones, and the first short-circuit or veto ends the chain.
+ */
+
+import type {
+  ExecutorMiddleware,
+  MiddlewareContext,
+  Message,
+  InvokeOptions,
+  InvokeResult,
+  ToolCall
+} from './types.js';
+
+/**
+ * Run beforeInvoke hooks
+ * Returns the (possibly replaced) request, or the result of a short-circuit
+ */
+export async function runBeforeInvoke(
+  middleware: ExecutorMiddleware[],
+  messages: Message[],
+  options: InvokeOptions,
+  context: MiddlewareContext
+): Promise<{ messages: Message[]; options: InvokeOptions } | { result: InvokeResult }> {
+  let request = { messages, options };
+
+  for (const m of middleware) {
+    const replacement = await m.beforeInvoke?.(request.messages, request.options, context);
+    if (!replacement) continue;
+
+    if ('result' in replacement) {
+      return { result: replacement.result };
+    }
+    request = {
+      messages: replacement.messages ?? request.messages,
+      options: replacement.options ?? request.options
+    };
+  }
+
+  return request;
+}
+
+/**
+ * Run afterInvoke hooks, each receiving the previous hook's result
+ */
+export async function runAfterInvoke(
+  middleware: ExecutorMiddleware[],
+  result: InvokeResult,
+  context: MiddlewareContext
+): Promise<InvokeResult> {
+  for (const m of middleware) {
+    result = (await m.afterInvoke?.(result, context)) ?? result;
+  }
+  return result;
+}
+
+/**
+ * Run beforeTool hooks
+ * Replaced args are written to the tool call, so the message history shows the args that ran.
+ * Returns the first short-circuit result or veto, undefined to run the tool.
+ */
+export async function runBeforeTool(
+  middleware: ExecutorMiddleware[],
+  toolCall: ToolCall,
+  context: MiddlewareContext
+): Promise<{ result: any } | { reject: string } | undefined> {
+  for (const m of middleware) {
+    const decision = await m.beforeTool?.(toolCall, context);
+    if (!decision) continue;
+
+    if ('args' in decision) {
+      toolCall.args = decision.args;
+    } else {
+      return decision;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Run afterTool hooks, each receiving the previous hook's result
+ */
+export async function runAfterTool(
+  middleware: ExecutorMiddleware[],
+  toolCall: ToolCall,
+  result: any,
+  context: MiddlewareContext
+): Promise<any> {
+  for (const m of middleware) {
+    const replacement = await m.afterTool?.(toolCall, result, context);
+    if (replacement !== undefined) {
+      result = replacement;
+    }
+  }
+  return result;
+}
+
+/**
+ * Run onError hooks until one recovers
+ * Returns the recovery value, undefined when the error stands
+ */
+export async function runOnError(
+  middleware: ExecutorMiddleware[],
+  error: Error,
+  context: MiddlewareContext & { stage: 'invoke' | 'tool'; toolCall?: ToolCall }
+): Promise<any> {
+  for (const m of middleware) {
+    const recovery = await m.onError?.(error, context);
+    if (recovery !== undefined) {
+      return recovery;
+    }
+  }
+  return undefined;
+}
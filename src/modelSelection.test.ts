@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { selectModel, createSeededRandom } from './modelSelection.js';
+import type { ModelConfig } from './types.js';
+
+describe('modelSelection', () => {
+  const models: ModelConfig[] = [
+    { provider: 'anthropic', name: 'claude-sonnet-4-5', weight: 3 },
+    { provider: 'openai', name: 'gpt-4o', weight: 1 }
+  ];
+
+  describe('createSeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+
+      expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+    });
+
+    it('should accept string seeds', () => {
+      const a = createSeededRandom('experiment-1');
+      const b = createSeededRandom('experiment-1');
+      const c = createSeededRandom('experiment-2');
+
+      const first = a();
+      expect(first).toBe(b());
+      expect(first).not.toBe(c());
+      expect(first).toBeGreaterThanOrEqual(0);
+      expect(first).toBeLessThan(1);
+    });
+  });
+
+  describe('selectModel', () => {
+    it('should be reproducible with a seed', () => {
+      const first = selectModel(models, 'run-123');
+
+      for (let i = 0; i < 5; i++) {
+        expect(selectModel(models, 'run-123')).toBe(first);
+      }
+    });
+
+    it('should pick models proportionally to their weights', () => {
+      const counts: Record<string, number> = { 'claude-sonnet-4-5': 0, 'gpt-4o': 0 };
+
+      for (let seed = 0; seed < 2000; seed++) {
+        counts[selectModel(models, seed).name]++;
+      }
+
+      // Expected split is 75% / 25%
+      expect(counts['claude-sonnet-4-5'] / 2000).toBeGreaterThan(0.7);
+      expect(counts['claude-sonnet-4-5'] / 2000).toBeLessThan(0.8);
+    });
+
+    it('should default weights to 1', () => {
+      const unweighted: ModelConfig[] = [
+        { provider: 'anthropic', name: 'a' },
+        { provider: 'openai', name: 'b' }
+      ];
+      const names = new Set<string>();
+
+      for (let seed = 0; seed < 50; seed++) {
+        names.add(selectModel(unweighted, seed).name);
+      }
+
+      expect(names).toEqual(new Set(['a', 'b']));
+    });
+
+    it('should never pick models with weight 0', () => {
+      const withDisabled: ModelConfig[] = [
+        { provider: 'anthropic', name: 'a', weight: 0 },
+        { provider: 'openai', name: 'b', weight: 1 }
+      ];
+
+      for (let seed = 0; seed < 50; seed++) {
+        expect(selectModel(withDisabled, seed).name).toBe('b');
+      }
+    });
+
+    it('should return the first model when all weights are 0', () => {
+      const allZero: ModelConfig[] = [
+        { provider: 'anthropic', name: 'a', weight: 0 },
+        { provider: 'openai', name: 'b', weight: 0 }
+      ];
+
+      expect(selectModel(allZero).name).toBe('a');
+    });
+
+    it('should throw on invalid weights', () => {
+      expect(() => selectModel([{ provider: 'openai', name: 'b', weight: -1 }])).toThrow('Invalid weight');
+    });
+
+    it('should throw on empty model list', () => {
+      expect(() => selectModel([])).toThrow('[modelSelection] models must not be empty');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Model Selection
+ *
+ * Weighted model sampling for manifests with modelSampling enabled.
+ * Each execution picks one model from manifest.models, proportionally to
+ * the model's `weight` (default: 1). A seed makes the pick reproducible.
+ */
+
+import type { ModelConfig } from './types.js';
+
+/**
+ * Create a deterministic pseudo-random generator (mulberry32) from a seed
+ * String seeds are hashed (FNV-1a) to a 32-bit integer first
+ */
+export function createSeededRandom(seed: number | string): () => number {
+  let state: number;
+
+  if (typeof seed === 'string') {
+    state = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      state ^= seed.charCodeAt(i);
+      state = Math.imul(state, 0x01000193);
+    }
+  } else {
+    state = Math.floor(seed);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a model from the list using weighted random selection
+ * Models with weight 0 are never picked; if all weights are 0 the first model is used
+ *
+ * @param models - Candidate models (manifest.models)
+ * @param seed - Optional seed for reproducible selection
+ */
+export function selectModel(models: ModelConfig[], seed?: number | string): ModelConfig {
+  if (!models || models.length === 0) {
+    throw new Error('[modelSelection] models must not be empty');
+  }
+
+  const weights = models.map(m => {
+    const weight = m.weight ?? 1;
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`[modelSelection] Invalid weight for ${m.provider}/${m.name}: ${weight}`);
+    }
+    return weight;
+  });
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total === 0) {
+    return models[0];
+  }
+
+  const random = seed !== undefined ? createSeededRandom(seed) : Math.random;
+  let threshold = random() * total;
+
+  for (let i = 0; i < models.length; i++) {
+    threshold -= weights[i];
+    if (threshold < 0) {
+      return models[i];
+    }
+  }
+
+  // Floating point edge case - return last model with a positive weight
+  return models[weights.map(w => w > 0).lastIndexOf(true)];
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { APIConnectionError } from '@anthropic-ai/sdk/error';
 import AnthropicExecutor from './anthropic.js';
+import { ExecutorError } from '../errors.js';
 import type { Manifest, ProviderCredentials } from '../types.js';
 
 // Mock the Anthropic SDK
@@ -132,6 +134,36 @@ describe('AnthropicExecutor', () => {
     });
   });
 
+  describe('classifyError', () => {
+    let executor: AnthropicExecutor;
+
+    beforeEach(() => {
+      executor = new AnthropicExecutor({
+        manifest: mockManifest,
+        credentials: mockCredentials
+      });
+    });
+
+    it('should retry connection errors', () => {
+      expect(executor['classifyError'](new APIConnectionError({ message: 'Connection error.' }))).toEqual({ retryable: true });
+    });
+
+    it('should honor the x-should-retry header', () => {
+      const error = { status: 400, headers: { 'x-should-retry': 'true', 'retry-after': '1' } };
+      expect(executor['classifyError'](error)).toEqual({ retryable: true, retryAfterMs: 1000 });
+      expect(executor['classifyError']({ status: 500, headers: { 'x-should-retry': 'false' } }).retryable).toBe(false);
+    });
+
+    it('should retry overloaded errors sent mid-stream', () => {
+      const error = { status: undefined, error: { type: 'error', error: { type: 'overloaded_error' } } };
+      expect(executor['classifyError'](error).retryable).toBe(true);
+    });
+
+    it('should not retry invalid requests', () => {
+      expect(executor['classifyError']({ status: 400, headers: {} }).retryable).toBe(false);
+    });
+  });
+
   describe('invoke', () => {
     it('should call Anthropic API with correct parameters', async () => {
       const mockCreate = vi.fn().mockResolvedValue({
@@ -160,6 +192,26 @@ describe('AnthropicExecutor', () => {
       expect(callArgs.messages[0]).toEqual({ role: 'user', content: 'User message' });
     });
 
+    it('should forward the abort signal to the SDK request', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({
+        content: [{ type: 'text', text: 'Hello' }],
+        usage: { input_tokens: 10, output_tokens: 5 }
+      });
+
+      const executor = new AnthropicExecutor({
+        manifest: mockManifest,
+        credentials: mockCredentials
+      });
+
+      executor['client'].messages.create = mockCreate;
+
+      const controller = new AbortController();
+      await executor.invoke([{ role: 'user', content: 'Hi' }], { signal: controller.signal });
+
+      expect(mockCreate.mock.calls[0][1]).toEqual({ signal: controller.signal });
+      expect(mockCreate.mock.calls[0][0]).not.toHaveProperty('signal');
+    });
+
     it('should pass provider-specific parameters', async () => {
       const mockCreate = vi.fn().mockResolvedValue({
         content: [{ type: 'text', text: 'Hello' }],
@@ -264,6 +316,7 @@ describe('AnthropicExecutor', () => {
             input: { arg1: 'value1' }
           }
         ],
+        stop_reason: 'tool_use',
         usage: { input_tokens: 10, output_tokens: 5 }
       });
 
@@ -282,6 +335,7 @@ describe('AnthropicExecutor', () => {
         name: 'test_tool',
         args: { arg1: 'value1' }
       });
+      expect(result.finishReason).toBe('tool_calls');
     });
 
     it('should format tool results correctly', async () => {
@@ -325,4 +379,297 @@ describe('AnthropicExecutor', () => {
       expect(toolResultMessage.content[0].tool_use_id).toBe('call_1');
     });
   });
+  describe('extended thinking', () => {
+    const thinking = { type: 'thinking', thinking: 'I should search first.', signature: 'sig_1' };
+    const redacted = { type: 'redacted_thinking', data: 'encrypted' };
+
+    it('should capture thinking blocks as reasoning', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({
+        content: [thinking, redacted, { type: 'tool_use', id: 'call_1', name: 'search', input: {} }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 50 }
+      });
+      const executor = new AnthropicExecutor({ manifest: mockManifest, credentials: mockCredentials });
+      executor['client'].messages.create = mockCreate;
+
+      const result = await executor.invoke([{ role: 'user', content: 'Test' }] as any, {});
+
+      expect(result.message.content).toBe('');
+      expect(result.message.reasoning).toEqual({ text: 'I should search first.', provider: 'anthropic', blocks: [thinking, redacted] });
+    });
+
+    it('should send thinking blocks back before tool_use blocks', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({ content: [], usage: { input_tokens: 10, output_tokens: 5 } });
+      const executor = new AnthropicExecutor({ manifest: mockManifest, credentials: mockCredentials });
+      executor['client'].messages.create = mockCreate;
+
+      await executor.invoke([
+        { role: 'user', content: 'Test' },
+        {
+          role: 'assistant',
+          content: 'Searching.',
+          tool_calls: [{ id: 'call_1', name: 'search', args: {} }],
+          reasoning: { text: 'I should search first.', provider: 'anthropic', blocks: [thinking, redacted] }
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '{}' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ id: 'call_2', name: 'search', args: {} }],
+          reasoning: { text: 'Other model', provider: 'bedrock', blocks: [{ reasoningContent: {} }] }
+        },
+        { role: 'tool', tool_call_id: 'call_2', content: '{}' }
+      ] as any, {});
+
+      const sent = mockCreate.mock.calls[0][0].messages;
+      expect(sent[1].content.map((block: any) => block.type)).toEqual(['thinking', 'redacted_thinking', 'text', 'tool_use']);
+      expect(sent[1].content[0]).toEqual(thinking);
+      expect(sent[3].content.map((block: any) => block.type)).toEqual(['tool_use']);
+    });
+
+    it('should not force tool use when thinking is enabled', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({ content: [], usage: { input_tokens: 10, output_tokens: 5 } });
+      const executor = new AnthropicExecutor({
+        manifest: {
+          ...mockManifest,
+          models: [{ ...mockManifest.models[0], metadata: { thinking: { type: 'enabled', budget_tokens: 2048 } } }]
+        },
+        credentials: mockCredentials
+      });
+      executor['client'].messages.create = mockCreate;
+      const tools = [{ type: 'function' as const, function: { name: 'search', description: 'Search', parameters: { type: 'object', properties: {} } } }];
+
+      // The tool loop's tool_choice, and a forced tool (forceNextTool)
+      await executor.invoke([{ role: 'user', content: 'Test' }] as any, { tools, tool_choice: 'required' });
+      await executor.invoke([{ role: 'user', content: 'Test' }] as any, { tools, tool_choice: { type: 'function', function: { name: 'search' } } });
+
+      const [loopParams, forcedParams] = mockCreate.mock.calls.map(call => call[0]);
+      expect(loopParams.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+      expect(loopParams.tool_choice).toEqual({ type: 'auto', disable_parallel_tool_use: true });
+      expect(forcedParams.tool_choice).toEqual({ type: 'auto', disable_parallel_tool_use: true });
+    });
+
+    it('should stream thinking deltas and keep the signature', async () => {
+      const events = [
+        { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Let me ' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'think.' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig_2' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'content_block_start', index: 1, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Done' } },
+        { type: 'content_block_stop', index: 1 },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 30 } }
+      ];
+      const mockCreate = vi.fn().mockResolvedValue((async function* () {
+        yield* events;
+      })());
+      const executor = new AnthropicExecutor({ manifest: mockManifest, credentials: mockCredentials });
+      executor['client'].messages.create = mockCreate;
+
+      const deltas: any[] = [];
+      const result = await executor.invokeStream([{ role: 'user', content: 'Test' }] as any, {}, delta => deltas.push(delta));
+
+      expect(deltas).toEqual([
+        { type: 'reasoning_delta', text: 'Let me ' },
+        { type: 'reasoning_delta', text: 'think.' },
+        { type: 'text_delta', text: 'Done' }
+      ]);
+      expect(result.message.content).toBe('Done');
+      expect(result.message.reasoning).toEqual({
+        text: 'Let me think.',
+        provider: 'anthropic',
+        blocks: [{ type: 'thinking', thinking: 'Let me think.', signature: 'sig_2' }]
+      });
+    });
+  });
+
+  describe('prompt caching', () => {
+    const tools = [
+      { type: 'function' as const, function: { name: 'search', description: 'Search', parameters: { type: 'object', properties: {} } } },
+      { type: 'function' as const, function: { name: 'finish_agent_run', description: 'Finish', parameters: { type: 'object', properties: {} } } }
+    ];
+    const messages = [
+      { role: 'system', content: 'System' },
+      { role: 'user', content: 'User' },
+      { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'search', args: {} }] },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"found":true}' }
+    ];
+
+    it('should add cache_control breakpoints after the system prompt, tools and conversation', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({ content: [], usage: { input_tokens: 10, output_tokens: 5 } });
+      const executor = new AnthropicExecutor({
+        manifest: { ...mockManifest, promptCache: true },
+        credentials: mockCredentials
+      });
+      executor['client'].messages.create = mockCreate;
+
+      await executor.invoke(messages as any, { tools });
+
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.system).toEqual([{ type: 'text', text: 'System', cache_control: { type: 'ephemeral' } }]);
+      expect(params.tools[0].cache_control).toBeUndefined();
+      expect(params.tools[1].cache_control).toEqual({ type: 'ephemeral' });
+      expect(params.messages[2].content).toEqual([
+        { type: 'tool_result', tool_use_id: 'call_1', content: '{"found":true}', cache_control: { type: 'ephemeral' } }
+      ]);
+      expect(params.messages[0].content).toBe('User');
+    });
+
+    it('should only add the configured breakpoints', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({ content: [], usage: { input_tokens: 10, output_tokens: 5 } });
+      const executor = new AnthropicExecutor({
+        manifest: { ...mockManifest, promptCache: true },
+        credentials: mockCredentials,
+        promptCache: { conversation: false }
+      });
+      executor['client'].messages.create = mockCreate;
+
+      await executor.invoke(messages.slice(0, 2) as any, { tools });
+
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.system[0].cache_control).toBeDefined();
+      expect(params.tools[1].cache_control).toBeDefined();
+      expect(params.messages[0].content).toBe('User');
+    });
+
+    it('should skip empty text when placing breakpoints', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({ content: [], usage: { input_tokens: 10, output_tokens: 5 } });
+      const executor = new AnthropicExecutor({
+        manifest: { ...mockManifest, promptCache: true },
+        credentials: mockCredentials
+      });
+      executor['client'].messages.create = mockCreate;
+
+      await executor.invoke([
+        { role: 'system', content: '' },
+        { role: 'user', content: 'User' },
+        { role: 'assistant', content: 'Answer' },
+        { role: 'user', content: [{ type: 'text', text: 'More' }, { type: 'text', text: '' }] }
+      ] as any, {});
+      await executor.invoke([
+        { role: 'user', content: 'User' },
+        { role: 'assistant', content: '' }
+      ] as any, {});
+
+      const [params, nextParams] = mockCreate.mock.calls.map(call => call[0]);
+      expect(JSON.stringify(params.system ?? '')).not.toContain('cache_control');
+      expect(params.messages[2].content).toEqual([
+        { type: 'text', text: 'More', cache_control: { type: 'ephemeral' } },
+        { type: 'text', text: '' }
+      ]);
+      expect(nextParams.messages[0].content).toEqual([{ type: 'text', text: 'User', cache_control: { type: 'ephemeral' } }]);
+      expect(JSON.stringify(nextParams.messages[1])).not.toContain('cache_control');
+    });
+
+    it('should not add breakpoints by default', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({ content: [], usage: { input_tokens: 10, output_tokens: 5 } });
+      const executor = new AnthropicExecutor({ manifest: mockManifest, credentials: mockCredentials });
+      executor['client'].messages.create = mockCreate;
+
+      await executor.invoke(messages as any, { tools });
+
+      expect(JSON.stringify(mockCreate.mock.calls[0][0])).not.toContain('cache_control');
+    });
+
+    it('should count cached tokens as input tokens', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({
+        content: [{ type: 'text', text: 'Hello' }],
+        usage: { input_tokens: 50, output_tokens: 5, cache_read_input_tokens: 3000, cache_creation_input_tokens: 200 }
+      });
+      const executor = new AnthropicExecutor({ manifest: mockManifest, credentials: mockCredentials });
+      executor['client'].messages.create = mockCreate;
+
+      const result = await executor.invoke([{ role: 'user', content: 'Test' }] as any, {});
+
+      expect(result.usage).toEqual({
+        input_tokens: 3250,
+        output_tokens: 5,
+        cache_read_input_tokens: 3000,
+        cache_creation_input_tokens: 200
+      });
+    });
+  });
+
+  describe('invokeStream', () => {
+    it('should report a tool call cut off partway through as a provider error', async () => {
+      const events = [
+        { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: 'search', input: {} } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"query":"ca' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'message_delta', delta: { stop_reason: 'max_tokens' }, usage: { output_tokens: 4096 } },
+        { type: 'message_stop' }
+      ];
+      const executor = new AnthropicExecutor({ manifest: mockManifest, credentials: mockCredentials });
+      executor['client'].messages.create = vi.fn().mockResolvedValue((async function* () {
+        yield* events;
+      })());
+
+      const error = await executor.invokeStream([{ role: 'user', content: 'Test' }] as any, {}, () => {}).catch(e => e);
+
+      expect(error).toBeInstanceOf(ExecutorError);
+      expect(error).toMatchObject({
+        code: 'PROVIDER_ERROR',
+        provider: 'anthropic',
+        message: "[BaseExecutor] Incomplete arguments for tool 'search': the response ended partway through the call (stop reason: max_tokens)"
+      });
+      expect(executor['toProviderError'](error, 2).toJSON()).toEqual({
+        code: 'PROVIDER_ERROR',
+        message: error.message,
+        provider: 'anthropic',
+        retryable: false,
+        turn: 2
+      });
+    });
+
+    it('should accumulate streamed text and tool_use blocks', async () => {
+      const events = [
+        { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Let me ' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'check' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'search', input: {} } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"query":' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"cats"}' } },
+        { type: 'content_block_stop', index: 1 },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 20 } },
+        { type: 'message_stop' }
+      ];
+      const mockCreate = vi.fn().mockResolvedValue((async function* () {
+        yield* events;
+      })());
+
+      const executor = new AnthropicExecutor({
+        manifest: mockManifest,
+        credentials: mockCredentials
+      });
+
+      executor['client'].messages.create = mockCreate;
+
+      const deltas: any[] = [];
+      const result = await executor.invokeStream(
+        [{ role: 'user', content: 'Test' }] as any,
+        {},
+        delta => deltas.push(delta)
+      );
+
+      expect(mockCreate.mock.calls[0][0].stream).toBe(true);
+      expect(deltas).toEqual([
+        { type: 'text_delta', text: 'Let me ' },
+        { type: 'text_delta', text: 'check' },
+        { type: 'tool_call_start', id: 'toolu_1', name: 'search' },
+        { type: 'tool_call_delta', id: 'toolu_1', argsDelta: '{"query":' },
+        { type: 'tool_call_delta', id: 'toolu_1', argsDelta: '"cats"}' }
+      ]);
+      expect(result.message.content).toBe('Let me check');
+      expect(result.message.tool_calls).toEqual([
+        { id: 'toolu_1', name: 'search', args: { query: 'cats' } }
+      ]);
+      expect(result.usage).toEqual({ input_tokens: 12, output_tokens: 20 });
+      expect(result.finishReason).toBe('tool_calls');
+    });
+  });
 });
@@ -5,8 +5,10 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { APIConnectionError } from '@anthropic-ai/sdk/error';
 import BaseExecutor from '../BaseExecutor.js';
-import type { BaseExecutorConfig, Message, InvokeOptions, InvokeResult } from '../types.js';
+import { getHeader, parseRetryAfter } from '../retry.js';
+import type { BaseExecutorConfig, Message, MessageReasoning, InvokeOptions, InvokeResult, StreamDeltaCallback, ErrorClassification, FinishReason } from '../types.js';
 
 export default class AnthropicExecutor extends BaseExecutor {
   private client: Anthropic;
@@ -26,7 +28,8 @@ export default class AnthropicExecutor extends BaseExecutor {
     // Initialize Anthropic client
     this.client = new Anthropic({
       apiKey: anthropicCreds.apiKey,
-      dangerouslyAllowBrowser: anthropicCreds.dangerouslyAllowBrowser
+      dangerouslyAllowBrowser: anthropicCreds.dangerouslyAllowBrowser,
+      maxRetries: 0 // Retries are handled by BaseExecutor's retry policy
     });
 
     this.log(`[AnthropicExecutor] Initialized with model: ${this.model}`);
@@ -37,6 +40,111 @@ export default class AnthropicExecutor extends BaseExecutor {
    * Returns: { message: { role, content, tool_calls }, usage: { input_tokens, output_tokens } }
    */
   async invoke(messages: Message[], options: InvokeOptions = {}): Promise<InvokeResult> {
+    const params = this.#buildParams(messages, options);
+
+    // Call Anthropic API
+    const response = await this.client.messages.create(params, { signal: options.signal });
+
+    // Format response to match expected structure
+    const reasoning = this.#extractReasoning(response.content);
+    return {
+      message: {
+        role: 'assistant',
+        content: this.#extractTextContent(response.content),
+        tool_calls: this.#extractToolCalls(response.content),
+        ...(reasoning && { reasoning })
+      },
+      usage: this.#formatUsage(response.usage),
+      finishReason: this.#normalizeFinishReason(response.stop_reason)
+    };
+  }
+
+  /**
+   * Invoke Anthropic API with streaming
+   * Accumulates content blocks from raw stream events and reports deltas as they arrive
+   */
+  async invokeStream(messages: Message[], options: InvokeOptions, onDelta: StreamDeltaCallback): Promise<InvokeResult> {
+    const params = this.#buildParams(messages, options);
+
+    const stream: any = await this.client.messages.create({ ...params, stream: true }, { signal: options.signal });
+
+    const blocks: any[] = [];
+    const partialJson: Record<number, string> = {};
+    let usage: NonNullable<InvokeResult['usage']> = { input_tokens: 0, output_tokens: 0 };
+    let stopReason: string | null = null;
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'message_start':
+          usage = this.#formatUsage(event.message?.usage);
+          break;
+
+        case 'content_block_start': {
+          const block = { ...event.content_block };
+          blocks[event.index] = block;
+          if (block.type === 'tool_use') {
+            partialJson[event.index] = '';
+            onDelta({ type: 'tool_call_start', id: block.id, name: block.name });
+          } else if (block.type === 'text' && block.text) {
+            onDelta({ type: 'text_delta', text: block.text });
+          } else if (block.type === 'thinking' && block.thinking) {
+            onDelta({ type: 'reasoning_delta', text: block.thinking });
+          }
+          break;
+        }
+
+        case 'content_block_delta': {
+          const block = blocks[event.index];
+          if (event.delta.type === 'text_delta') {
+            block.text = (block.text || '') + event.delta.text;
+            onDelta({ type: 'text_delta', text: event.delta.text });
+          } else if (event.delta.type === 'input_json_delta') {
+            partialJson[event.index] += event.delta.partial_json;
+            onDelta({ type: 'tool_call_delta', id: block.id, argsDelta: event.delta.partial_json });
+          } else if (event.delta.type === 'thinking_delta') {
+            block.thinking = (block.thinking || '') + event.delta.thinking;
+            onDelta({ type: 'reasoning_delta', text: event.delta.thinking });
+          } else if (event.delta.type === 'signature_delta') {
+            block.signature = (block.signature || '') + event.delta.signature;
+          }
+          break;
+        }
+
+        case 'message_delta':
+          if (event.usage?.output_tokens !== undefined) {
+            usage.output_tokens = event.usage.output_tokens;
+          }
+          if (event.delta?.stop_reason) {
+            stopReason = event.delta.stop_reason;
+          }
+          break;
+      }
+    }
+
+    // Args are parsed once the stream ended, so a call cut off by max_tokens reports the stop reason
+    for (const [index, json] of Object.entries(partialJson)) {
+      blocks[Number(index)].input = this.parseStreamedArgs(json, blocks[Number(index)].name, stopReason);
+    }
+
+    const content = blocks.filter(Boolean);
+    const reasoning = this.#extractReasoning(content);
+
+    return {
+      message: {
+        role: 'assistant',
+        content: this.#extractTextContent(content),
+        tool_calls: this.#extractToolCalls(content),
+        ...(reasoning && { reasoning })
+      },
+      usage,
+      finishReason: this.#normalizeFinishReason(stopReason)
+    };
+  }
+
+  /**
+   * Build request parameters for the Messages API
+   */
+  #buildParams(messages: Message[], options: InvokeOptions): any {
     // Extract provider-specific parameters from model config
     const providerParams = this.#extractProviderParams();
 
@@ -67,22 +175,80 @@ export default class AnthropicExecutor extends BaseExecutor {
     // Add tool_choice if specified
     if (options.tool_choice && options.tool_choice !== 'auto') {
       params.tool_choice = this.#formatToolChoice(options.tool_choice);
+
+      // Extended thinking rejects forced tool use ('any' or a named tool), which the tool loop asks for
+      if (params.thinking && params.thinking.type !== 'disabled' && ['any', 'tool'].includes(params.tool_choice.type)) {
+        params.tool_choice = { type: 'auto', disable_parallel_tool_use: true };
+      }
     }
 
-    // Call Anthropic API
-    const response = await this.client.messages.create(params);
+    if (this.promptCache) {
+      this.#addCacheBreakpoints(params);
+    }
 
-    // Format response to match expected structure
-    return {
-      message: {
-        role: 'assistant',
-        content: this.#extractTextContent(response.content),
-        tool_calls: this.#extractToolCalls(response.content)
-      },
-      usage: {
-        input_tokens: response.usage.input_tokens,
-        output_tokens: response.usage.output_tokens
+    return params;
+  }
+
+  /**
+   * Mark prompt cache breakpoints with cache_control (see PromptCacheConfig)
+   * Everything up to a breakpoint is cached: system, then tools, then the conversation.
+   * Empty text blocks are rejected by the API, so breakpoints only go on blocks with content.
+   */
+  #addCacheBreakpoints(params: any): void {
+    const cacheControl = { type: 'ephemeral' };
+
+    if (this.promptCache!.system && params.system?.trim()) {
+      params.system = [{ type: 'text', text: params.system, cache_control: cacheControl }];
+    }
+
+    if (this.promptCache!.tools && params.tools?.length) {
+      const last = params.tools.length - 1;
+      params.tools[last] = { ...params.tools[last], cache_control: cacheControl };
+    }
+
+    if (!this.promptCache!.conversation) return;
+
+    // Last block with content, searching back from the latest message
+    for (let i = params.messages.length - 1; i >= 0; i--) {
+      const message = params.messages[i];
+      const content = typeof message.content === 'string'
+        ? [{ type: 'text', text: message.content }]
+        : [...message.content];
+
+      for (let j = content.length - 1; j >= 0; j--) {
+        if (this.#isCacheableBlock(content[j])) {
+          content[j] = { ...content[j], cache_control: cacheControl };
+          params.messages[i] = { ...message, content };
+          return;
+        }
       }
+    }
+  }
+
+  /**
+   * Whether a content block can carry cache_control
+   * Thinking blocks can't, and empty text blocks are rejected
+   */
+  #isCacheableBlock(block: any): boolean {
+    if (block?.type === 'thinking' || block?.type === 'redacted_thinking') return false;
+    if (block?.type === 'text') return Boolean(block.text?.trim());
+    return true;
+  }
+
+  /**
+   * Normalize Anthropic usage
+   * Anthropic reports cache reads and writes separately from input_tokens; they are added
+   * to input_tokens so it counts the whole prompt like the other providers
+   */
+  #formatUsage(usage: any): NonNullable<InvokeResult['usage']> {
+    const cacheRead = usage?.cache_read_input_tokens;
+    const cacheCreation = usage?.cache_creation_input_tokens;
+
+    return {
+      input_tokens: (usage?.input_tokens || 0) + (cacheRead || 0) + (cacheCreation || 0),
+      output_tokens: usage?.output_tokens || 0,
+      ...(cacheRead != null && { cache_read_input_tokens: cacheRead }),
+      ...(cacheCreation != null && { cache_creation_input_tokens: cacheCreation })
     };
   }
 
@@ -93,6 +259,29 @@ export default class AnthropicExecutor extends BaseExecutor {
     return Boolean(message?.tool_calls && message.tool_calls.length > 0);
   }
 
+  /**
+   * Classify Anthropic SDK errors for retries
+   * Connection errors and timeouts are retryable, the x-should-retry header wins over
+   * the status, and overload/rate limit errors sent mid-stream (no status) are retryable
+   */
+  protected classifyError(error: any): ErrorClassification {
+    if (error instanceof APIConnectionError) {
+      return { retryable: true };
+    }
+
+    const shouldRetry = getHeader(error?.headers, 'x-should-retry');
+    if (shouldRetry === 'true' || shouldRetry === 'false') {
+      return { retryable: shouldRetry === 'true', retryAfterMs: parseRetryAfter(error.headers) };
+    }
+
+    const errorType = error?.error?.error?.type;
+    if (['overloaded_error', 'rate_limit_error', 'api_error'].includes(errorType)) {
+      return { retryable: true, retryAfterMs: parseRetryAfter(error.headers) };
+    }
+
+    return super.classifyError(error);
+  }
+
   /**
    * Format messages for Anthropic API
    * Converts from standard format to Anthropic format
@@ -125,6 +314,12 @@ export default class AnthropicExecutor extends BaseExecutor {
       if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
         const content: any[] = [];
 
+        // With extended thinking, the tool loop must send the thinking blocks back first
+        // and unchanged (the API checks their signatures)
+        if (msg.reasoning?.provider === 'anthropic' && msg.reasoning.blocks) {
+          content.push(...msg.reasoning.blocks);
+        }
+
         // Add text content if present
         if (msg.content) {
           content.push({
@@ -292,6 +487,28 @@ export default class AnthropicExecutor extends BaseExecutor {
     return textBlocks.map(block => block.text).join('\n');
   }
 
+  /**
+   * Extract thinking and redacted_thinking blocks from response
+   * Redacted blocks have no readable text but are kept to be sent back
+   */
+  #extractReasoning(content: any[]): MessageReasoning | undefined {
+    const blocks = (content || [])
+      .filter(block => block.type === 'thinking' || block.type === 'redacted_thinking')
+      .map(block => block.type === 'thinking'
+        ? { type: 'thinking', thinking: block.thinking, signature: block.signature }
+        : { type: 'redacted_thinking', data: block.data });
+
+    if (blocks.length === 0) {
+      return undefined;
+    }
+
+    return {
+      text: blocks.filter(block => block.type === 'thinking').map(block => block.thinking).join('\n'),
+      provider: 'anthropic',
+      blocks
+    };
+  }
+
   /**
    * Extract tool calls from response
    */
@@ -322,4 +539,23 @@ export default class AnthropicExecutor extends BaseExecutor {
     const { displayName, ...providerParams } = metadata;
     return providerParams;
   }
+
+  /**
+   * Map Anthropic stop_reason to a FinishReason
+   */
+  #normalizeFinishReason(stopReason: string | null | undefined): FinishReason {
+    switch (stopReason) {
+      case 'end_turn':
+      case 'stop_sequence':
+        return 'stop';
+      case 'tool_use':
+        return 'tool_calls';
+      case 'max_tokens':
+        return 'length';
+      case 'refusal':
+        return 'content_filter';
+      default:
+        return 'other';
+    }
+  }
 }
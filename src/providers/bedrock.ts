@@ -4,9 +4,9 @@
  * Uses native @aws-sdk/client-bedrock-runtime (not LangChain)
  */
 
-import { BedrockRuntimeClient, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
+import { BedrockRuntimeClient, ConverseCommand, ConverseStreamCommand } from '@aws-sdk/client-bedrock-runtime';
 import BaseExecutor from '../BaseExecutor.js';
-import type { BaseExecutorConfig, Message, InvokeOptions, InvokeResult } from '../types.js';
+import type { BaseExecutorConfig, Message, MessageReasoning, InvokeOptions, InvokeResult, StreamDeltaCallback, ErrorClassification, FinishReason } from '../types.js';
 
 export default class BedrockExecutor extends BaseExecutor {
   private client: BedrockRuntimeClient;
@@ -25,7 +25,8 @@ export default class BedrockExecutor extends BaseExecutor {
     }
 
     // Initialize Bedrock client
-    const clientConfig: any = { region: bedrockCreds.region };
+    // maxAttempts: 1 - retries are handled by BaseExecutor's retry policy
+    const clientConfig: any = { region: bedrockCreds.region, maxAttempts: 1 };
 
     // Add credentials if provided (optional - can use AWS SDK default credential chain)
     if (bedrockCreds.accessKeyId && bedrockCreds.secretAccessKey) {
@@ -46,6 +47,107 @@ export default class BedrockExecutor extends BaseExecutor {
    * Returns: { message: { role, content, tool_calls }, usage: { input_tokens, output_tokens } }
    */
   async invoke(messages: Message[], options: InvokeOptions = {}): Promise<InvokeResult> {
+    const params = this.#buildParams(messages, options);
+
+    // Call Bedrock Converse API
+    const command = new ConverseCommand(params);
+    const response = await this.client.send(command, { abortSignal: options.signal });
+
+    // Format response to match expected structure
+    const output = response.output;
+    const message = output!.message;
+
+    const reasoning = this.#extractReasoning(message!.content);
+    return {
+      message: {
+        role: 'assistant',
+        content: this.#extractTextContent(message!.content),
+        tool_calls: this.#extractToolCalls(message!.content),
+        ...(reasoning && { reasoning })
+      },
+      usage: this.#formatUsage(response.usage),
+      finishReason: this.#normalizeFinishReason(response.stopReason)
+    };
+  }
+
+  /**
+   * Invoke Bedrock ConverseStream API
+   * Accumulates content blocks from stream events and reports deltas as they arrive
+   */
+  async invokeStream(messages: Message[], options: InvokeOptions, onDelta: StreamDeltaCallback): Promise<InvokeResult> {
+    const params = this.#buildParams(messages, options);
+
+    const command = new ConverseStreamCommand(params);
+    const response = await this.client.send(command, { abortSignal: options.signal });
+
+    const blocks: any[] = [];
+    const partialJson: Record<number, string> = {};
+    let usage: NonNullable<InvokeResult['usage']> = { input_tokens: 0, output_tokens: 0 };
+    let stopReason: string | undefined;
+
+    for await (const event of response.stream || []) {
+      if (event.contentBlockStart) {
+        const index = event.contentBlockStart.contentBlockIndex!;
+        const toolUse = event.contentBlockStart.start?.toolUse;
+        if (toolUse) {
+          blocks[index] = { toolUse: { toolUseId: toolUse.toolUseId, name: toolUse.name, input: {} } };
+          partialJson[index] = '';
+          onDelta({ type: 'tool_call_start', id: toolUse.toolUseId!, name: toolUse.name! });
+        }
+      } else if (event.contentBlockDelta) {
+        const index = event.contentBlockDelta.contentBlockIndex!;
+        const delta = event.contentBlockDelta.delta;
+        if (delta?.text !== undefined) {
+          blocks[index] = { text: (blocks[index]?.text || '') + delta.text };
+          onDelta({ type: 'text_delta', text: delta.text });
+        } else if (delta?.toolUse?.input !== undefined) {
+          partialJson[index] += delta.toolUse.input;
+          onDelta({ type: 'tool_call_delta', id: blocks[index].toolUse.toolUseId, argsDelta: delta.toolUse.input });
+        } else if (delta?.reasoningContent) {
+          // Reasoning text and its signature arrive as separate deltas of the same block
+          const block = blocks[index] ??= { reasoningContent: { reasoningText: { text: '' } } };
+          const reasoning = delta.reasoningContent;
+          if (reasoning.redactedContent) {
+            blocks[index] = { reasoningContent: { redactedContent: reasoning.redactedContent } };
+          } else if (reasoning.text) {
+            block.reasoningContent.reasoningText.text += reasoning.text;
+            onDelta({ type: 'reasoning_delta', text: reasoning.text });
+          } else if (reasoning.signature) {
+            block.reasoningContent.reasoningText.signature = reasoning.signature;
+          }
+        }
+      } else if (event.messageStop) {
+        stopReason = event.messageStop.stopReason;
+      } else if (event.metadata?.usage) {
+        usage = this.#formatUsage(event.metadata.usage);
+      }
+    }
+
+    // Args are parsed once the stream ended, so a call cut off by max_tokens reports the stop reason
+    for (const [index, json] of Object.entries(partialJson)) {
+      const toolUse = blocks[Number(index)].toolUse;
+      toolUse.input = this.parseStreamedArgs(json, toolUse.name, stopReason);
+    }
+
+    const content = blocks.filter(Boolean);
+    const reasoning = this.#extractReasoning(content);
+
+    return {
+      message: {
+        role: 'assistant',
+        content: this.#extractTextContent(content),
+        tool_calls: this.#extractToolCalls(content),
+        ...(reasoning && { reasoning })
+      },
+      usage,
+      finishReason: this.#normalizeFinishReason(stopReason)
+    };
+  }
+
+  /**
+   * Build request parameters for the Converse API
+   */
+  #buildParams(messages: Message[], options: InvokeOptions): any {
     // Extract provider-specific parameters
     const providerParams = this.#extractProviderParams();
 
@@ -89,6 +191,10 @@ export default class BedrockExecutor extends BaseExecutor {
       }
     }
 
+    if (this.promptCache) {
+      this.#addCachePoints(params);
+    }
+
     this.log('[BedrockExecutor] Invoking:', {
       model: params.modelId,
       temperature: params.inferenceConfig.temperature,
@@ -96,24 +202,44 @@ export default class BedrockExecutor extends BaseExecutor {
       tools: params.toolConfig?.tools?.length || 0
     });
 
-    // Call Bedrock Converse API
-    const command = new ConverseCommand(params);
-    const response = await this.client.send(command);
+    return params;
+  }
 
-    // Format response to match expected structure
-    const output = response.output;
-    const message = output!.message;
+  /**
+   * Append prompt cache points (see PromptCacheConfig)
+   * Everything before a cache point is cached: system, then tools, then the conversation
+   */
+  #addCachePoints(params: any): void {
+    const cachePoint = { cachePoint: { type: 'default' } };
+
+    if (this.promptCache!.system && params.system) {
+      params.system.push(cachePoint);
+    }
+
+    if (this.promptCache!.tools && params.toolConfig) {
+      params.toolConfig.tools.push(cachePoint);
+    }
+
+    const lastMessage = params.messages[params.messages.length - 1];
+    if (this.promptCache!.conversation && lastMessage?.content?.length) {
+      lastMessage.content.push(cachePoint);
+    }
+  }
+
+  /**
+   * Normalize Bedrock usage
+   * Cache reads and writes are reported separately from inputTokens; they are added
+   * to input_tokens so it counts the whole prompt like the other providers
+   */
+  #formatUsage(usage: any): NonNullable<InvokeResult['usage']> {
+    const cacheRead = usage?.cacheReadInputTokens;
+    const cacheWrite = usage?.cacheWriteInputTokens;
 
     return {
-      message: {
-        role: 'assistant',
-        content: this.#extractTextContent(message!.content),
-        tool_calls: this.#extractToolCalls(message!.content)
-      },
-      usage: {
-        input_tokens: response.usage!.inputTokens!,
-        output_tokens: response.usage!.outputTokens!
-      }
+      input_tokens: (usage?.inputTokens || 0) + (cacheRead || 0) + (cacheWrite || 0),
+      output_tokens: usage?.outputTokens || 0,
+      ...(cacheRead != null && { cache_read_input_tokens: cacheRead }),
+      ...(cacheWrite != null && { cache_creation_input_tokens: cacheWrite })
     };
   }
 
@@ -124,6 +250,29 @@ export default class BedrockExecutor extends BaseExecutor {
     return Boolean(message?.tool_calls && message.tool_calls.length > 0);
   }
 
+  /**
+   * Classify AWS SDK errors for retries
+   * Throttling, capacity and server-side exceptions are matched by name since
+   * stream errors carry no HTTP status; $retryable is set by the SDK for transient errors
+   */
+  protected classifyError(error: any): ErrorClassification {
+    const retryableNames = [
+      'ThrottlingException',
+      'ServiceUnavailableException',
+      'ModelNotReadyException',
+      'InternalServerException',
+      'ModelStreamErrorException',
+      'ModelTimeoutException',
+      'TimeoutError'
+    ];
+
+    if (error?.$retryable || retryableNames.includes(error?.name)) {
+      return { retryable: true };
+    }
+
+    return super.classifyError(error);
+  }
+
   /**
    * Format messages for Bedrock Converse API
    */
@@ -163,6 +312,11 @@ export default class BedrockExecutor extends BaseExecutor {
         ? [{ text: msg.content }]
         : this.#formatContent(msg.content);
 
+      // Reasoning blocks go first and unchanged - their signatures are checked
+      if (msg.role === 'assistant' && msg.reasoning?.provider === 'bedrock' && msg.reasoning.blocks) {
+        content.unshift(...msg.reasoning.blocks);
+      }
+
       formatted.push({
         role: msg.role,
         content
@@ -293,6 +447,23 @@ export default class BedrockExecutor extends BaseExecutor {
     return textBlocks.map(block => block.text).join('\n');
   }
 
+  /**
+   * Extract reasoningContent blocks from response
+   * Redacted blocks have no readable text but are kept to be sent back
+   */
+  #extractReasoning(content: any[] | undefined): MessageReasoning | undefined {
+    const blocks = (content || []).filter(block => block.reasoningContent);
+    if (blocks.length === 0) {
+      return undefined;
+    }
+
+    return {
+      text: blocks.map(block => block.reasoningContent.reasoningText?.text).filter(Boolean).join('\n'),
+      provider: 'bedrock',
+      blocks
+    };
+  }
+
   /**
    * Extract tool calls from response
    */
@@ -323,4 +494,24 @@ export default class BedrockExecutor extends BaseExecutor {
     const { displayName, ...providerParams } = metadata;
     return providerParams;
   }
+
+  /**
+   * Map Converse stopReason to a FinishReason
+   */
+  #normalizeFinishReason(stopReason: string | undefined): FinishReason {
+    switch (stopReason) {
+      case 'end_turn':
+      case 'stop_sequence':
+        return 'stop';
+      case 'tool_use':
+        return 'tool_calls';
+      case 'max_tokens':
+        return 'length';
+      case 'guardrail_intervened':
+      case 'content_filtered':
+        return 'content_filter';
+      default:
+        return 'other';
+    }
+  }
 }
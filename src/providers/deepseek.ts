@@ -5,8 +5,10 @@
  */
 
 import OpenAI from 'openai';
+import { APIConnectionError } from 'openai/error';
 import BaseExecutor from '../BaseExecutor.js';
-import type { BaseExecutorConfig, Message, InvokeOptions, InvokeResult } from '../types.js';
+import { getHeader, parseRetryAfter } from '../retry.js';
+import type { BaseExecutorConfig, Message, InvokeOptions, InvokeResult, StreamDeltaCallback, ErrorClassification, FinishReason } from '../types.js';
 
 export default class DeepSeekExecutor extends BaseExecutor {
   private client: OpenAI;
@@ -27,7 +29,8 @@ export default class DeepSeekExecutor extends BaseExecutor {
     this.client = new OpenAI({
       apiKey: deepseekCreds.apiKey,
       baseURL: 'https://api.deepseek.com/v1',
-      dangerouslyAllowBrowser: deepseekCreds.dangerouslyAllowBrowser
+      dangerouslyAllowBrowser: deepseekCreds.dangerouslyAllowBrowser,
+      maxRetries: 0 // Retries are handled by BaseExecutor's retry policy
     });
 
     this.log(`[DeepSeekExecutor] Initialized with model: ${this.model}`);
@@ -38,6 +41,108 @@ export default class DeepSeekExecutor extends BaseExecutor {
    * Returns: { message: { role, content, tool_calls }, usage: { input_tokens, output_tokens } }
    */
   async invoke(messages: Message[], options: InvokeOptions = {}): Promise<InvokeResult> {
+    const params = this.#buildParams(messages, options);
+
+    // Call DeepSeek API (OpenAI-compatible)
+    const response = await this.client.chat.completions.create(params, { signal: options.signal });
+
+    const choice = response.choices[0];
+    const message = choice.message;
+
+    // Format response to match expected structure
+    // Reasoning models return their chain of thought in reasoning_content
+    const reasoningText = (message as any).reasoning_content;
+    return {
+      message: {
+        role: message.role,
+        content: message.content || '',
+        tool_calls: this.#extractToolCalls(message.tool_calls),
+        ...(reasoningText && { reasoning: { text: reasoningText, provider: 'deepseek' } })
+      },
+      usage: this.#formatUsage(response.usage),
+      finishReason: this.#normalizeFinishReason(choice.finish_reason)
+    };
+  }
+
+  /**
+   * Invoke DeepSeek API with streaming
+   * Accumulates content and tool call fragments from chunks and reports deltas as they arrive
+   */
+  async invokeStream(messages: Message[], options: InvokeOptions, onDelta: StreamDeltaCallback): Promise<InvokeResult> {
+    const params = this.#buildParams(messages, options);
+
+    const stream: any = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: options.signal });
+
+    let content = '';
+    let reasoningText = '';
+    const toolCalls: any[] = [];
+    let usage: NonNullable<InvokeResult['usage']> = { input_tokens: 0, output_tokens: 0 };
+    let finishReason: string | null = null;
+
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage = this.#formatUsage(chunk.usage);
+      }
+
+      if (chunk.choices?.[0]?.finish_reason) {
+        finishReason = chunk.choices[0].finish_reason;
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.reasoning_content) {
+        reasoningText += delta.reasoning_content;
+        onDelta({ type: 'reasoning_delta', text: delta.reasoning_content });
+      }
+
+      if (delta.content) {
+        content += delta.content;
+        onDelta({ type: 'text_delta', text: delta.content });
+      }
+
+      // Tool call fragments are keyed by index; id and name arrive on the first fragment
+      for (const fragment of delta.tool_calls || []) {
+        let toolCall = toolCalls[fragment.index];
+        if (!toolCall) {
+          toolCall = { id: fragment.id, function: { name: fragment.function?.name || '', arguments: '' } };
+          toolCalls[fragment.index] = toolCall;
+          onDelta({ type: 'tool_call_start', id: toolCall.id, name: toolCall.function.name });
+        }
+        if (fragment.function?.arguments) {
+          toolCall.function.arguments += fragment.function.arguments;
+          onDelta({ type: 'tool_call_delta', id: toolCall.id, argsDelta: fragment.function.arguments });
+        }
+      }
+    }
+
+    // Tool calls without arguments stream no argument fragments
+    for (const toolCall of toolCalls) {
+      if (toolCall && !toolCall.function.arguments) {
+        toolCall.function.arguments = '{}';
+      }
+    }
+
+    return {
+      message: {
+        role: 'assistant',
+        content,
+        tool_calls: this.#extractToolCalls(toolCalls.filter(Boolean)),
+        ...(reasoningText && { reasoning: { text: reasoningText, provider: 'deepseek' } })
+      },
+      usage,
+      finishReason: this.#normalizeFinishReason(finishReason)
+    };
+  }
+
+  /**
+   * Build request parameters for the Chat Completions API
+   */
+  #buildParams(messages: Message[], options: InvokeOptions): any {
     // Build request parameters
     const params: any = {
       model: this.model,
@@ -65,23 +170,23 @@ export default class DeepSeekExecutor extends BaseExecutor {
       tools: params.tools?.length || 0
     });
 
-    // Call DeepSeek API (OpenAI-compatible)
-    const response = await this.client.chat.completions.create(params);
+    return params;
+  }
 
-    const choice = response.choices[0];
-    const message = choice.message;
+  /**
+   * Normalize DeepSeek usage
+   * DeepSeek caches prompts automatically; prompt_cache_hit_tokens is part of prompt_tokens
+   */
+  #formatUsage(usage: any): NonNullable<InvokeResult['usage']> {
+    const cached = usage?.prompt_cache_hit_tokens;
+
+    const reasoningTokens = usage?.completion_tokens_details?.reasoning_tokens;
 
-    // Format response to match expected structure
     return {
-      message: {
-        role: message.role,
-        content: message.content || '',
-        tool_calls: this.#extractToolCalls(message.tool_calls)
-      },
-      usage: {
-        input_tokens: response.usage!.prompt_tokens,
-        output_tokens: response.usage!.completion_tokens
-      }
+      input_tokens: usage?.prompt_tokens || 0,
+      output_tokens: usage?.completion_tokens || 0,
+      ...(cached != null && { cache_read_input_tokens: cached }),
+      ...(reasoningTokens != null && { reasoning_tokens: reasoningTokens })
     };
   }
 
@@ -92,6 +197,28 @@ export default class DeepSeekExecutor extends BaseExecutor {
     return Boolean(message?.tool_calls && message.tool_calls.length > 0);
   }
 
+  /**
+   * Classify DeepSeek SDK errors for retries
+   * Connection errors and timeouts are retryable, the x-should-retry header wins over
+   * the status, and exhausted quota (429 insufficient_quota) is not retryable
+   */
+  protected classifyError(error: any): ErrorClassification {
+    if (error instanceof APIConnectionError) {
+      return { retryable: true };
+    }
+
+    if (error?.code === 'insufficient_quota') {
+      return { retryable: false };
+    }
+
+    const shouldRetry = getHeader(error?.headers, 'x-should-retry');
+    if (shouldRetry === 'true' || shouldRetry === 'false') {
+      return { retryable: shouldRetry === 'true', retryAfterMs: parseRetryAfter(error.headers) };
+    }
+
+    return super.classifyError(error);
+  }
+
   /**
    * Format messages for DeepSeek API (OpenAI format)
    */
@@ -219,4 +346,23 @@ export default class DeepSeekExecutor extends BaseExecutor {
     const { displayName, ...providerParams } = metadata;
     return providerParams;
   }
+
+  /**
+   * Map DeepSeek finish_reason to a FinishReason
+   */
+  #normalizeFinishReason(finishReason: string | null | undefined): FinishReason {
+    switch (finishReason) {
+      case 'stop':
+        return 'stop';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_calls';
+      case 'length':
+        return 'length';
+      case 'content_filter':
+        return 'content_filter';
+      default:
+        return 'other';
+    }
+  }
 }
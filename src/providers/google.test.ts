@@ -409,7 +409,8 @@ describe('GoogleExecutor', () => {
       const mockGenerateContent = vi.fn().mockResolvedValue({
         response: {
           candidates: [{
-            content: { role: 'model', parts: [{ text: 'Response' }] }
+            content: { role: 'model', parts: [{ text: 'Response' }] },
+            finishReason: 'MAX_TOKENS'
           }],
           usageMetadata: {
             promptTokenCount: 100,
@@ -435,6 +436,94 @@ describe('GoogleExecutor', () => {
         input_tokens: 100,
         output_tokens: 50
       });
+      expect(result.finishReason).toBe('length');
+    });
+
+    it('should separate thought summaries from content and report thinking tokens', async () => {
+      const { GoogleGenerativeAI } = await import('@google/generative-ai');
+      const mockGenerateContent = vi.fn().mockResolvedValue({
+        response: {
+          candidates: [{
+            content: { role: 'model', parts: [{ text: 'The user wants a greeting.', thought: true }, { text: 'Hello!' }] },
+            finishReason: 'STOP'
+          }],
+          usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 5, thoughtsTokenCount: 300 }
+        }
+      });
+
+      (GoogleGenerativeAI as any).mockImplementation(() => ({
+        getGenerativeModel: vi.fn().mockReturnValue({
+          generateContent: mockGenerateContent
+        })
+      }));
+
+      const executor = new GoogleExecutor({
+        manifest: mockManifest,
+        credentials: mockCredentials
+      });
+
+      const result = await executor.invoke([{ role: 'user', content: 'Test' }]);
+
+      expect(result.message.content).toBe('Hello!');
+      expect(result.message.reasoning).toEqual({ text: 'The user wants a greeting.', provider: 'google' });
+      expect(result.usage).toEqual({ input_tokens: 100, output_tokens: 305, reasoning_tokens: 300 });
+    });
+  });
+  describe('invokeStream', () => {
+    it('should report streamed text and function calls', async () => {
+      const { GoogleGenerativeAI } = await import('@google/generative-ai');
+      const chunks = [
+        { candidates: [{ content: { role: 'model', parts: [{ text: 'Let me ' }] } }] },
+        { candidates: [{ content: { role: 'model', parts: [{ text: 'search' }] } }] },
+        { candidates: [{ content: { role: 'model', parts: [{ functionCall: { name: 'search', args: { query: 'cats' } } }] } }] }
+      ];
+      const mockGenerateContentStream = vi.fn().mockResolvedValue({
+        stream: (async function* () {
+          yield* chunks;
+        })(),
+        response: Promise.resolve({
+          candidates: [{
+            content: {
+              role: 'model',
+              parts: [
+                { text: 'Let me search' },
+                { functionCall: { name: 'search', args: { query: 'cats' } } }
+              ]
+            }
+          }],
+          usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 8 }
+        })
+      });
+
+      (GoogleGenerativeAI as any).mockImplementation(() => ({
+        getGenerativeModel: vi.fn().mockReturnValue({
+          generateContentStream: mockGenerateContentStream
+        })
+      }));
+
+      const executor = new GoogleExecutor({
+        manifest: mockManifest,
+        credentials: mockCredentials
+      });
+
+      const deltas: any[] = [];
+      const result = await executor.invokeStream(
+        [{ role: 'user', content: 'Test' }],
+        {},
+        delta => deltas.push(delta)
+      );
+
+      expect(deltas).toEqual([
+        { type: 'text_delta', text: 'Let me ' },
+        { type: 'text_delta', text: 'search' },
+        { type: 'tool_call_start', id: 'search', name: 'search' },
+        { type: 'tool_call_delta', id: 'search', argsDelta: '{"query":"cats"}' }
+      ]);
+      expect(result.message.content).toBe('Let me search');
+      expect(result.message.tool_calls).toEqual([
+        { id: 'search', name: 'search', args: { query: 'cats' } }
+      ]);
+      expect(result.usage).toEqual({ input_tokens: 20, output_tokens: 8 });
     });
   });
 });
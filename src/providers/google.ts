@@ -4,9 +4,10 @@
  * Uses native @google/generative-ai SDK
  */
 
-import { GoogleGenerativeAI, Content, Part, FunctionDeclaration, Tool } from '@google/generative-ai';
+import { GoogleGenerativeAI, Content, Part, FunctionDeclaration, Tool, GenerativeModel, EnhancedGenerateContentResponse } from '@google/generative-ai';
 import BaseExecutor from '../BaseExecutor.js';
-import type { BaseExecutorConfig, Message, InvokeOptions, InvokeResult } from '../types.js';
+import { getErrorStatus } from '../retry.js';
+import type { BaseExecutorConfig, Message, InvokeOptions, InvokeResult, StreamDeltaCallback, ErrorClassification, FinishReason } from '../types.js';
 
 export default class GoogleExecutor extends BaseExecutor {
   private client: GoogleGenerativeAI;
@@ -44,6 +45,51 @@ export default class GoogleExecutor extends BaseExecutor {
    * Returns: { message: { role, content, tool_calls }, usage: { input_tokens, output_tokens } }
    */
   async invoke(messages: Message[], options: InvokeOptions = {}): Promise<InvokeResult> {
+    const { model, contents } = this.#prepareRequest(messages, options);
+
+    // Call Gemini API
+    const result = await model.generateContent({
+      contents
+    }, { signal: options.signal });
+
+    return this.#formatResponse(result.response);
+  }
+
+  /**
+   * Invoke Google Gemini API with streaming
+   * Gemini streams text incrementally; function calls arrive whole in a single chunk
+   */
+  async invokeStream(messages: Message[], options: InvokeOptions, onDelta: StreamDeltaCallback): Promise<InvokeResult> {
+    const { model, contents } = this.#prepareRequest(messages, options);
+
+    const result = await model.generateContentStream({
+      contents
+    }, { signal: options.signal });
+
+    for await (const chunk of result.stream) {
+      const parts = chunk.candidates?.[0]?.content?.parts || [];
+      for (const part of parts) {
+        if ('text' in part && part.text && (part as any).thought) {
+          onDelta({ type: 'reasoning_delta', text: part.text });
+        } else if ('text' in part && part.text) {
+          onDelta({ type: 'text_delta', text: part.text });
+        } else if ('functionCall' in part && part.functionCall) {
+          // Google doesn't provide IDs - the function name is used as ID (see #extractToolCalls)
+          const id = part.functionCall.name;
+          onDelta({ type: 'tool_call_start', id, name: part.functionCall.name });
+          onDelta({ type: 'tool_call_delta', id, argsDelta: JSON.stringify(part.functionCall.args || {}) });
+        }
+      }
+    }
+
+    // The SDK aggregates all chunks into a single response
+    return this.#formatResponse(await result.response);
+  }
+
+  /**
+   * Build the generative model and request contents for a call
+   */
+  #prepareRequest(messages: Message[], options: InvokeOptions): { model: GenerativeModel; contents: Content[] } {
     // Extract provider-specific parameters from model config
     const providerParams = this.#extractProviderParams();
 
@@ -86,21 +132,23 @@ export default class GoogleExecutor extends BaseExecutor {
       tools: options.tools?.length || 0
     });
 
-    // Call Gemini API
-    const result = await model.generateContent({
-      contents
-    });
+    return { model, contents };
+  }
 
-    const response = result.response;
+  /**
+   * Format Gemini response to match expected structure
+   */
+  #formatResponse(response: EnhancedGenerateContentResponse): InvokeResult {
     const candidate = response.candidates?.[0];
 
     if (!candidate) {
       throw new Error('[GoogleExecutor] No candidate in response');
     }
 
-    // Extract content and tool calls
+    // Extract content, tool calls and thought summaries (with includeThoughts)
     const textContent = this.#extractTextContent(candidate.content);
     const toolCalls = this.#extractToolCalls(candidate.content);
+    const reasoningText = this.#extractTextContent(candidate.content, true);
 
     // Extract usage
     // Include thoughtsTokenCount (Gemini 2.5+) in output tokens since it's generated reasoning
@@ -108,7 +156,8 @@ export default class GoogleExecutor extends BaseExecutor {
     const thoughtsTokens = metadata?.thoughtsTokenCount || 0;
     const usage = {
       input_tokens: response.usageMetadata?.promptTokenCount || 0,
-      output_tokens: (response.usageMetadata?.candidatesTokenCount || 0) + thoughtsTokens
+      output_tokens: (response.usageMetadata?.candidatesTokenCount || 0) + thoughtsTokens,
+      ...(metadata?.thoughtsTokenCount !== undefined && { reasoning_tokens: thoughtsTokens })
     };
 
     // Format response to match expected structure
@@ -116,9 +165,11 @@ export default class GoogleExecutor extends BaseExecutor {
       message: {
         role: 'assistant',
         content: textContent,
-        tool_calls: toolCalls
+        tool_calls: toolCalls,
+        ...(reasoningText && { reasoning: { text: reasoningText, provider: 'google' } })
       },
-      usage
+      usage,
+      finishReason: this.#normalizeFinishReason(candidate.finishReason, toolCalls.length > 0)
     };
   }
 
@@ -129,6 +180,32 @@ export default class GoogleExecutor extends BaseExecutor {
     return Boolean(message?.tool_calls && message.tool_calls.length > 0);
   }
 
+  /**
+   * Classify Gemini SDK errors for retries
+   * Fetch failures are wrapped without a status; retry delays come from google.rpc.RetryInfo details
+   */
+  protected classifyError(error: any): ErrorClassification {
+    if (getErrorStatus(error) === undefined) {
+      const isFetchFailure = error?.name !== 'GoogleGenerativeAIAbortError' &&
+        typeof error?.message === 'string' &&
+        error.message.includes('Error fetching from');
+      return isFetchFailure ? { retryable: true } : super.classifyError(error);
+    }
+
+    const classification = super.classifyError(error);
+
+    // retryDelay is a duration string like "30s"
+    const retryInfo = Array.isArray(error.errorDetails)
+      ? error.errorDetails.find((d: any) => typeof d?.['@type'] === 'string' && d['@type'].endsWith('google.rpc.RetryInfo'))
+      : undefined;
+    const retryDelaySeconds = parseFloat(retryInfo?.retryDelay);
+    if (classification.retryable && Number.isFinite(retryDelaySeconds)) {
+      classification.retryAfterMs = retryDelaySeconds * 1000;
+    }
+
+    return classification;
+  }
+
   /**
    * Format messages for Gemini API
    * Gemini expects: systemInstruction (string) + contents (Content[])
@@ -366,14 +443,15 @@ export default class GoogleExecutor extends BaseExecutor {
 
   /**
    * Extract text content from Gemini response
+   * Thought parts (thought: true) are reasoning, not content
    */
-  #extractTextContent(content: Content): string {
+  #extractTextContent(content: Content, thoughts: boolean = false): string {
     if (!content.parts || content.parts.length === 0) {
       return '';
     }
 
     const textParts = content.parts
-      .filter(part => 'text' in part)
+      .filter(part => 'text' in part && Boolean((part as any).thought) === thoughts)
       .map(part => (part as any).text);
 
     return textParts.join('');
@@ -410,4 +488,25 @@ export default class GoogleExecutor extends BaseExecutor {
     const { displayName, ...providerParams } = metadata;
     return providerParams;
   }
+
+  /**
+   * Map Gemini finishReason to a FinishReason
+   * Gemini reports STOP for function calls too, so tool calls are detected from the content
+   */
+  #normalizeFinishReason(finishReason: string | undefined, hasToolCalls: boolean): FinishReason {
+    switch (finishReason) {
+      case 'STOP':
+        return hasToolCalls ? 'tool_calls' : 'stop';
+      case 'MAX_TOKENS':
+        return 'length';
+      case 'SAFETY':
+      case 'RECITATION':
+      case 'BLOCKLIST':
+      case 'PROHIBITED_CONTENT':
+      case 'SPII':
+        return 'content_filter';
+      default:
+        return hasToolCalls ? 'tool_calls' : 'other';
+    }
+  }
 }
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createExecutor } from '../executorFactory.js';
+import MockExecutor from './mock.js';
+import type { Manifest, ModelConfig } from '../types.js';
+
+const createManifest = (model: ModelConfig): Manifest => ({
+  name: 'test-mock',
+  category: 'test',
+  description: 'Mock test prompt',
+  system: [{ name: 'main', content: 'You are a helpful assistant.' }],
+  user: [{ name: 'main', content: 'Look up order {orderId}' }],
+  blocks: [],
+  variables: [{ name: 'orderId', type: 'string', required: true }],
+  tools: [
+    {
+      type: 'function',
+      function: {
+        name: 'get_order',
+        description: 'Get an order',
+        parameters: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] }
+      }
+    },
+    {
+      type: 'function',
+      function: {
+        name: 'finish_agent_run',
+        description: 'Finish',
+        parameters: { type: 'object', properties: { status: { type: 'string' } } }
+      }
+    }
+  ],
+  models: [model]
+});
+
+describe('MockExecutor', () => {
+  it('should be created by createExecutor without credentials', async () => {
+    const executor = await createExecutor({
+      manifest: createManifest({ provider: 'mock', name: 'scripted', script: [] }),
+      variables: { orderId: '42' },
+      credentials: {},
+      log: () => {}
+    });
+
+    expect(executor).toBeInstanceOf(MockExecutor);
+  });
+
+  it('should require a script', () => {
+    expect(() => new MockExecutor({
+      manifest: createManifest({ provider: 'mock', name: 'scripted' }),
+      credentials: {},
+      log: () => {}
+    })).toThrow('[MockExecutor] model.script is required');
+  });
+
+  it('should play scripted turns through the tool loop', async () => {
+    const getOrder = vi.fn(async ({ id }: { id: string }) => ({ id, status: 'shipped' }));
+    const onToolCall = vi.fn(async () => {});
+
+    const executor = await createExecutor({
+      manifest: createManifest({
+        provider: 'mock',
+        name: 'scripted',
+        script: [
+          { content: 'Checking.', tool_calls: [{ name: 'get_order', args: { id: '42' } }], usage: { input_tokens: 100, output_tokens: 20 } },
+          { tool_calls: [{ name: 'finish_agent_run', args: { status: 'shipped' } }], usage: { input_tokens: 150, output_tokens: 10 } }
+        ]
+      }),
+      variables: { orderId: '42' },
+      toolRouter: { get_order: { execute: getOrder } },
+      credentials: {},
+      onToolCall,
+      log: () => {}
+    });
+
+    const result = await executor.execute();
+
+    expect(result.ok).toBe(true);
+    expect(result.result).toEqual({ status: 'shipped' });
+    expect(getOrder).toHaveBeenCalledWith({ id: '42' }, expect.anything());
+    expect(onToolCall).toHaveBeenCalledWith(expect.objectContaining({
+      toolCall: { id: 'mock_call_1', name: 'get_order', args: { id: '42' } },
+      toolResponse: { id: '42', status: 'shipped' }
+    }));
+    expect(result.usage).toEqual(expect.objectContaining({ inputTokens: 250, outputTokens: 30, totalCostUSD: 0 }));
+    expect(result.messages[2]).toEqual(expect.objectContaining({ role: 'assistant', content: 'Checking.' }));
+  });
+
+  it('should call a script function with the message history', async () => {
+    const lastMessages: any[] = [];
+    const script = vi.fn((messages: any[], { call }: { call: number }) => {
+      const last = messages[messages.length - 1];
+      lastMessages.push(last);
+      if (call === 0) {
+        return { tool_calls: [{ id: 'lookup', name: 'get_order', args: { id: '7' } }] };
+      }
+      return { tool_calls: [{ name: 'finish_agent_run', args: { status: JSON.parse(last.content).status } }] };
+    });
+
+    const executor = await createExecutor({
+      manifest: createManifest({ provider: 'mock', name: 'scripted', script }),
+      variables: { orderId: '7' },
+      toolRouter: { get_order: { execute: async () => ({ status: 'pending' }) } },
+      credentials: {},
+      log: () => {}
+    });
+
+    const result = await executor.execute();
+
+    expect(result.result).toEqual({ status: 'pending' });
+    expect(script).toHaveBeenCalledTimes(2);
+    expect(lastMessages[1]).toEqual(expect.objectContaining({ role: 'tool', tool_call_id: 'lookup' }));
+  });
+
+  it('should fail the execution when the script runs out', async () => {
+    const executor = await createExecutor({
+      manifest: createManifest({
+        provider: 'mock',
+        name: 'scripted',
+        script: [{ tool_calls: [{ name: 'get_order', args: { id: '42' } }] }]
+      }),
+      variables: { orderId: '42' },
+      toolRouter: { get_order: { execute: async () => ({}) } },
+      credentials: {},
+      retry: false,
+      log: () => {}
+    });
+
+    const result = await executor.execute();
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.message).toContain('[MockExecutor] Script exhausted: call 2 but the script has 1 turns');
+  });
+
+  it('should treat a string turn as text and stream it', async () => {
+    const executor = await createExecutor({
+      manifest: createManifest({ provider: 'mock', name: 'scripted', script: ['Hello there'] }),
+      variables: { orderId: '42' },
+      credentials: {},
+      log: () => {}
+    });
+
+    const deltas: any[] = [];
+    const result = await executor.invokeStream([{ role: 'user', content: 'Hi' }], {}, delta => deltas.push(delta));
+
+    expect(result).toEqual({
+      message: { role: 'assistant', content: 'Hello there', tool_calls: [] },
+      usage: { input_tokens: 0, output_tokens: 0 },
+      finishReason: 'stop'
+    });
+    expect(deltas).toEqual([{ type: 'text_delta', text: 'Hello there' }]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * MockExecutor - Scripted provider for tests
+ *
+ * Plays assistant turns from model.script instead of calling an LLM, so tool routers,
+ * onToolCall handlers and middleware can be tested against the real execution loop.
+ * Needs no credentials and costs nothing.
+ */
+
+import BaseExecutor from '../BaseExecutor.js';
+import type { BaseExecutorConfig, Message, InvokeOptions, InvokeResult, MockScript, MockTurn } from '../types.js';
+
+export default class MockExecutor extends BaseExecutor {
+  private script: MockScript;
+  private calls = 0;
+  private toolCallCount = 0;
+
+  constructor(config: BaseExecutorConfig) {
+    super(config);
+
+    const script = this.primaryModelConfig.script;
+    if (!Array.isArray(script) && typeof script !== 'function') {
+      throw new Error('[MockExecutor] model.script is required (an array of turns or a function)');
+    }
+    this.script = script;
+
+    this.modelPricing = {
+      provider: 'mock',
+      name: this.model,
+      inputTokensPer1M: 0,
+      outputTokensPer1M: 0,
+      currency: 'USD'
+    };
+
+    this.log(`[MockExecutor] Initialized with model: ${this.model}`);
+  }
+
+  /**
+   * Play the next scripted turn
+   */
+  async invoke(messages: Message[], options: InvokeOptions = {}): Promise<InvokeResult> {
+    const call = this.calls++;
+
+    let turn: MockTurn;
+    if (typeof this.script === 'function') {
+      turn = await this.script(messages, { call, options });
+    } else {
+      if (call >= this.script.length) {
+        throw new Error(`[MockExecutor] Script exhausted: call ${call + 1} but the script has ${this.script.length} turns`);
+      }
+      turn = this.script[call];
+    }
+
+    return this.#formatTurn(turn);
+  }
+
+  /**
+   * Check if message has tool calls
+   */
+  hasToolCalls(message: Message): boolean {
+    return Boolean(message?.tool_calls && message.tool_calls.length > 0);
+  }
+
+  /**
+   * Mock models have no Studio pricing to load
+   */
+  protected async loadModelPricing(): Promise<void> {}
+
+  /**
+   * Normalize a scripted turn to an InvokeResult
+   * Turns are copied, so middleware that edits tool args doesn't change the script.
+   */
+  #formatTurn(turn: MockTurn): InvokeResult {
+    if (typeof turn === 'string') {
+      turn = { content: turn };
+    }
+    if (!turn || typeof turn !== 'object') {
+      throw new Error(`[MockExecutor] Invalid turn: expected a string or an object, got ${turn === null ? 'null' : typeof turn}`);
+    }
+
+    const toolCalls = (turn.tool_calls || []).map(toolCall => {
+      if (!toolCall?.name) {
+        throw new Error('[MockExecutor] Scripted tool calls need a name');
+      }
+      return {
+        id: toolCall.id || `mock_call_${++this.toolCallCount}`,
+        name: toolCall.name,
+        args: structuredClone(toolCall.args || {})
+      };
+    });
+
+    return {
+      message: {
+        role: 'assistant',
+        content: turn.content || '',
+        tool_calls: toolCalls,
+        ...(turn.reasoning && { reasoning: { text: turn.reasoning, provider: 'mock' } })
+      },
+      usage: {
+        input_tokens: turn.usage?.input_tokens ?? 0,
+        output_tokens: turn.usage?.output_tokens ?? 0
+      },
+      finishReason: turn.finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop')
+    };
+  }
+}
@@ -119,6 +119,18 @@ describe('OpenAIExecutor', () => {
     });
   });
 
+  describe('classifyError', () => {
+    it('should not retry exhausted quota', () => {
+      const executor = new OpenAIExecutor({
+        manifest: mockManifest,
+        credentials: mockCredentials
+      });
+
+      expect(executor['classifyError']({ status: 429, code: 'insufficient_quota', headers: {} }).retryable).toBe(false);
+      expect(executor['classifyError']({ status: 429, code: 'rate_limit_exceeded', headers: {} }).retryable).toBe(true);
+    });
+  });
+
   describe('invoke', () => {
     it('should call OpenAI API with correct parameters', async () => {
       const mockCreate = vi.fn().mockResolvedValue({
@@ -158,6 +170,25 @@ describe('OpenAIExecutor', () => {
       expect(callArgs.messages[1]).toEqual({ role: 'user', content: 'User message' });
     });
 
+    it('should forward the abort signal to the SDK request', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({
+        choices: [{ message: { role: 'assistant', content: 'Hello' } }],
+        usage: { prompt_tokens: 10, completion_tokens: 5 }
+      });
+
+      const executor = new OpenAIExecutor({
+        manifest: mockManifest,
+        credentials: mockCredentials
+      });
+
+      executor['client'].chat.completions.create = mockCreate;
+
+      const controller = new AbortController();
+      await executor.invoke([{ role: 'user', content: 'Hi' }], { signal: controller.signal });
+
+      expect(mockCreate.mock.calls[0][1]).toEqual({ signal: controller.signal });
+    });
+
     it('should pass provider-specific parameters', async () => {
       const mockCreate = vi.fn().mockResolvedValue({
         choices: [{ message: { role: 'assistant', content: 'Hello' } }],
@@ -248,7 +279,8 @@ describe('OpenAIExecutor', () => {
                   }
                 }
               ]
-            }
+            },
+            finish_reason: 'tool_calls'
           }
         ],
         usage: { prompt_tokens: 10, completion_tokens: 5 }
@@ -269,6 +301,7 @@ describe('OpenAIExecutor', () => {
         name: 'test_tool',
         args: { arg1: 'value1' }
       });
+      expect(result.finishReason).toBe('tool_calls');
     });
 
     it('should format tool results correctly', async () => {
@@ -326,6 +359,34 @@ describe('OpenAIExecutor', () => {
       });
     });
 
+    it('should report cached prompt tokens and reasoning tokens', async () => {
+      const mockCreate = vi.fn().mockResolvedValue({
+        choices: [{ message: { role: 'assistant', content: 'Hello' } }],
+        usage: {
+          prompt_tokens: 2000,
+          completion_tokens: 50,
+          prompt_tokens_details: { cached_tokens: 1536 },
+          completion_tokens_details: { reasoning_tokens: 40 }
+        }
+      });
+
+      const executor = new OpenAIExecutor({
+        manifest: mockManifest,
+        credentials: mockCredentials
+      });
+
+      executor['client'].chat.completions.create = mockCreate;
+
+      const result = await executor.invoke([{ role: 'user', content: 'Test' }] as any, {});
+
+      expect(result.usage).toEqual({
+        input_tokens: 2000,
+        output_tokens: 50,
+        cache_read_input_tokens: 1536,
+        reasoning_tokens: 40
+      });
+    });
+
     it('should handle empty content', async () => {
       const mockCreate = vi.fn().mockResolvedValue({
         choices: [{ message: { role: 'assistant', content: null } }],
@@ -344,4 +405,50 @@ describe('OpenAIExecutor', () => {
       expect(result.message.content).toBe('');
     });
   });
+  describe('invokeStream', () => {
+    it('should accumulate streamed content and tool call fragments', async () => {
+      const chunks = [
+        { choices: [{ delta: { role: 'assistant', content: 'Hi' } }] },
+        { choices: [{ delta: { content: ' there' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'search', arguments: '' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"query":"cats"}' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 1, id: 'call_2', function: { name: 'finish_agent_run' } }] } }] },
+        { choices: [], usage: { prompt_tokens: 30, completion_tokens: 12 } }
+      ];
+      const mockCreate = vi.fn().mockResolvedValue((async function* () {
+        yield* chunks;
+      })());
+
+      const executor = new OpenAIExecutor({
+        manifest: mockManifest,
+        credentials: mockCredentials
+      });
+
+      executor['client'].chat.completions.create = mockCreate;
+
+      const deltas: any[] = [];
+      const result = await executor.invokeStream(
+        [{ role: 'user', content: 'Test' }] as any,
+        {},
+        delta => deltas.push(delta)
+      );
+
+      const callArgs = mockCreate.mock.calls[0][0];
+      expect(callArgs.stream).toBe(true);
+      expect(callArgs.stream_options).toEqual({ include_usage: true });
+      expect(deltas).toEqual([
+        { type: 'text_delta', text: 'Hi' },
+        { type: 'text_delta', text: ' there' },
+        { type: 'tool_call_start', id: 'call_1', name: 'search' },
+        { type: 'tool_call_delta', id: 'call_1', argsDelta: '{"query":"cats"}' },
+        { type: 'tool_call_start', id: 'call_2', name: 'finish_agent_run' }
+      ]);
+      expect(result.message.content).toBe('Hi there');
+      expect(result.message.tool_calls).toEqual([
+        { id: 'call_1', name: 'search', args: { query: 'cats' } },
+        { id: 'call_2', name: 'finish_agent_run', args: {} }
+      ]);
+      expect(result.usage).toEqual({ input_tokens: 30, output_tokens: 12 });
+    });
+  });
 });
@@ -5,8 +5,10 @@
  */
 
 import OpenAI from 'openai';
+import { APIConnectionError } from 'openai/error';
 import BaseExecutor from '../BaseExecutor.js';
-import type { BaseExecutorConfig, Message, InvokeOptions, InvokeResult } from '../types.js';
+import { getHeader, parseRetryAfter } from '../retry.js';
+import type { BaseExecutorConfig, Message, InvokeOptions, InvokeResult, StreamDeltaCallback, ErrorClassification, FinishReason } from '../types.js';
 
 export default class OpenAIExecutor extends BaseExecutor {
   private client: OpenAI;
@@ -26,7 +28,8 @@ export default class OpenAIExecutor extends BaseExecutor {
     // Initialize OpenAI client
     this.client = new OpenAI({
       apiKey: openaiCreds.apiKey,
-      dangerouslyAllowBrowser: openaiCreds.dangerouslyAllowBrowser
+      dangerouslyAllowBrowser: openaiCreds.dangerouslyAllowBrowser,
+      maxRetries: 0 // Retries are handled by BaseExecutor's retry policy
     });
 
     this.log(`[OpenAIExecutor] Initialized with model: ${this.model}`);
@@ -37,6 +40,98 @@ export default class OpenAIExecutor extends BaseExecutor {
    * Returns: { message: { role, content, tool_calls }, usage: { input_tokens, output_tokens } }
    */
   async invoke(messages: Message[], options: InvokeOptions = {}): Promise<InvokeResult> {
+    const params = this.#buildParams(messages, options);
+
+    // Call OpenAI API
+    const response = await this.client.chat.completions.create(params, { signal: options.signal });
+
+    const choice = response.choices[0];
+    const message = choice.message;
+
+    // Format response to match expected structure
+    return {
+      message: {
+        role: message.role,
+        content: message.content || '',
+        tool_calls: this.#extractToolCalls(message.tool_calls)
+      },
+      usage: this.#formatUsage(response.usage),
+      finishReason: this.#normalizeFinishReason(choice.finish_reason)
+    };
+  }
+
+  /**
+   * Invoke OpenAI API with streaming
+   * Accumulates content and tool call fragments from chunks and reports deltas as they arrive
+   */
+  async invokeStream(messages: Message[], options: InvokeOptions, onDelta: StreamDeltaCallback): Promise<InvokeResult> {
+    const params = this.#buildParams(messages, options);
+
+    const stream: any = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: options.signal });
+
+    let content = '';
+    const toolCalls: any[] = [];
+    let usage: NonNullable<InvokeResult['usage']> = { input_tokens: 0, output_tokens: 0 };
+    let finishReason: string | null = null;
+
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage = this.#formatUsage(chunk.usage);
+      }
+
+      if (chunk.choices?.[0]?.finish_reason) {
+        finishReason = chunk.choices[0].finish_reason;
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onDelta({ type: 'text_delta', text: delta.content });
+      }
+
+      // Tool call fragments are keyed by index; id and name arrive on the first fragment
+      for (const fragment of delta.tool_calls || []) {
+        let toolCall = toolCalls[fragment.index];
+        if (!toolCall) {
+          toolCall = { id: fragment.id, function: { name: fragment.function?.name || '', arguments: '' } };
+          toolCalls[fragment.index] = toolCall;
+          onDelta({ type: 'tool_call_start', id: toolCall.id, name: toolCall.function.name });
+        }
+        if (fragment.function?.arguments) {
+          toolCall.function.arguments += fragment.function.arguments;
+          onDelta({ type: 'tool_call_delta', id: toolCall.id, argsDelta: fragment.function.arguments });
+        }
+      }
+    }
+
+    // Tool calls without arguments stream no argument fragments
+    for (const toolCall of toolCalls) {
+      if (toolCall && !toolCall.function.arguments) {
+        toolCall.function.arguments = '{}';
+      }
+    }
+
+    return {
+      message: {
+        role: 'assistant',
+        content,
+        tool_calls: this.#extractToolCalls(toolCalls.filter(Boolean))
+      },
+      usage,
+      finishReason: this.#normalizeFinishReason(finishReason)
+    };
+  }
+
+  /**
+   * Build request parameters for the Chat Completions API
+   */
+  #buildParams(messages: Message[], options: InvokeOptions): any {
     // Build request parameters
     const params: any = {
       model: this.model,
@@ -65,23 +160,23 @@ export default class OpenAIExecutor extends BaseExecutor {
       tools: params.tools?.length || 0
     });
 
-    // Call OpenAI API
-    const response = await this.client.chat.completions.create(params);
+    return params;
+  }
 
-    const choice = response.choices[0];
-    const message = choice.message;
+  /**
+   * Normalize OpenAI usage
+   * OpenAI caches long prompts automatically; cached_tokens is part of prompt_tokens
+   */
+  #formatUsage(usage: any): NonNullable<InvokeResult['usage']> {
+    const cached = usage?.prompt_tokens_details?.cached_tokens;
+
+    const reasoningTokens = usage?.completion_tokens_details?.reasoning_tokens;
 
-    // Format response to match expected structure
     return {
-      message: {
-        role: message.role,
-        content: message.content || '',
-        tool_calls: this.#extractToolCalls(message.tool_calls)
-      },
-      usage: {
-        input_tokens: response.usage!.prompt_tokens,
-        output_tokens: response.usage!.completion_tokens
-      }
+      input_tokens: usage?.prompt_tokens || 0,
+      output_tokens: usage?.completion_tokens || 0,
+      ...(cached != null && { cache_read_input_tokens: cached }),
+      ...(reasoningTokens != null && { reasoning_tokens: reasoningTokens })
     };
   }
 
@@ -92,6 +187,28 @@ export default class OpenAIExecutor extends BaseExecutor {
     return Boolean(message?.tool_calls && message.tool_calls.length > 0);
   }
 
+  /**
+   * Classify OpenAI SDK errors for retries
+   * Connection errors and timeouts are retryable, the x-should-retry header wins over
+   * the status, and exhausted quota (429 insufficient_quota) is not retryable
+   */
+  protected classifyError(error: any): ErrorClassification {
+    if (error instanceof APIConnectionError) {
+      return { retryable: true };
+    }
+
+    if (error?.code === 'insufficient_quota') {
+      return { retryable: false };
+    }
+
+    const shouldRetry = getHeader(error?.headers, 'x-should-retry');
+    if (shouldRetry === 'true' || shouldRetry === 'false') {
+      return { retryable: shouldRetry === 'true', retryAfterMs: parseRetryAfter(error.headers) };
+    }
+
+    return super.classifyError(error);
+  }
+
   /**
    * Format messages for OpenAI API
    */
@@ -220,4 +337,23 @@ export default class OpenAIExecutor extends BaseExecutor {
     const { displayName, ...providerParams } = metadata;
     return providerParams;
   }
+
+  /**
+   * Map OpenAI finish_reason to a FinishReason
+   */
+  #normalizeFinishReason(finishReason: string | null | undefined): FinishReason {
+    switch (finishReason) {
+      case 'stop':
+        return 'stop';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_calls';
+      case 'length':
+        return 'length';
+      case 'content_filter':
+        return 'content_filter';
+      default:
+        return 'other';
+    }
+  }
 }
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  getRetryDelay,
+  parseRetryAfter,
+  classifyHttpError,
+  sleep
+} from './retry.js';
+import { AbortError } from './abort.js';
+
+describe('retry', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should apply defaults', () => {
+      expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+      expect(resolveRetryPolicy({ maxAttempts: 5 }).maxAttempts).toBe(5);
+    });
+
+    it('should disable retries with false', () => {
+      expect(resolveRetryPolicy(false).maxAttempts).toBe(1);
+    });
+
+    it('should reject invalid maxAttempts', () => {
+      expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow('[retry] maxAttempts must be at least 1');
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: false };
+
+    it('should back off exponentially up to maxDelayMs', () => {
+      expect(getRetryDelay(1, policy)).toBe(1000);
+      expect(getRetryDelay(2, policy)).toBe(2000);
+      expect(getRetryDelay(3, policy)).toBe(4000);
+      expect(getRetryDelay(10, policy)).toBe(30_000);
+    });
+
+    it('should apply full jitter', () => {
+      expect(getRetryDelay(2, DEFAULT_RETRY_POLICY, undefined, () => 0.5)).toBe(1000);
+    });
+
+    it('should prefer retry-after, capped at maxDelayMs', () => {
+      expect(getRetryDelay(1, policy, 5000)).toBe(5000);
+      expect(getRetryDelay(1, policy, 120_000)).toBe(30_000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse retry-after-ms and retry-after seconds', () => {
+      expect(parseRetryAfter({ 'retry-after-ms': '250' })).toBe(250);
+      expect(parseRetryAfter({ 'Retry-After': '2' })).toBe(2000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+      expect(parseRetryAfter({ 'retry-after': 'Wed, 01 Jan 2025 00:00:03 GMT' }, now)).toBe(3000);
+    });
+
+    it('should read fetch Headers', () => {
+      expect(parseRetryAfter(new Headers({ 'retry-after': '1' }))).toBe(1000);
+    });
+
+    it('should return undefined without a hint', () => {
+      expect(parseRetryAfter({})).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('classifyHttpError', () => {
+    it('should retry rate limits, overloads and server errors', () => {
+      for (const status of [408, 409, 429, 500, 503, 529]) {
+        expect(classifyHttpError({ status }).retryable).toBe(true);
+      }
+    });
+
+    it('should not retry client errors', () => {
+      for (const status of [400, 401, 403, 404, 422]) {
+        expect(classifyHttpError({ status }).retryable).toBe(false);
+      }
+    });
+
+    it('should retry network errors', () => {
+      expect(classifyHttpError({ code: 'ECONNRESET' }).retryable).toBe(true);
+      expect(classifyHttpError({ cause: { code: 'ETIMEDOUT' } }).retryable).toBe(true);
+      expect(classifyHttpError(new Error('boom')).retryable).toBe(false);
+    });
+
+    it('should never retry aborts', () => {
+      expect(classifyHttpError(new AbortError('timeout')).retryable).toBe(false);
+    });
+
+    it('should include the retry-after hint', () => {
+      expect(classifyHttpError({ status: 429, headers: { 'retry-after': '3' } })).toEqual({
+        retryable: true,
+        retryAfterMs: 3000
+      });
+    });
+  });
+
+  describe('sleep', () => {
+    it('should reject with an AbortError when aborted', async () => {
+      const controller = new AbortController();
+      const promise = sleep(60_000, controller.signal);
+      controller.abort(new AbortError('timeout'));
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError', reason: 'timeout' });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Retry Policy
+ *
+ * Exponential backoff with jitter for transient provider errors.
+ * Provider adapters classify their SDK's errors (BaseExecutor.classifyError);
+ * the helpers here cover the HTTP/network cases common to all providers.
+ */
+
+import type { RetryPolicy, ErrorClassification } from './types.js';
+import { AbortError, getAbortReason } from './abort.js';
+
+/**
+ * Default retry policy - 3 attempts per turn, 1s/2s backoff with full jitter, max 30s
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+  backoffMultiplier: 2,
+  jitter: true
+};
+
+/**
+ * Resolve a retry option into a complete policy
+ * false disables retries (single attempt)
+ */
+export function resolveRetryPolicy(retry?: RetryPolicy | false): Required<RetryPolicy> {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+
+  const policy = { ...DEFAULT_RETRY_POLICY, ...retry };
+  if (!Number.isFinite(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new Error(`[retry] maxAttempts must be at least 1, got ${policy.maxAttempts}`);
+  }
+  return policy;
+}
+
+/**
+ * Delay before the next attempt (attempt is the 1-based number of the attempt that failed)
+ * A retry-after hint from the provider wins over the computed backoff; both are capped at maxDelayMs
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined && retryAfterMs >= 0) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const backoff = Math.min(
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1),
+    policy.maxDelayMs
+  );
+
+  // Full jitter - spreads out retries from concurrent executions
+  return Math.round(policy.jitter ? random() * backoff : backoff);
+}
+
+/**
+ * Read a header from a fetch Headers instance or a plain header record
+ */
+export function getHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key !== undefined ? headers[key] ?? undefined : undefined;
+}
+
+/**
+ * Parse retry-after-ms / retry-after headers into milliseconds
+ * retry-after may be a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(headers: any, now: number = Date.now()): number | undefined {
+  const retryAfterMs = getHeader(headers, 'retry-after-ms');
+  if (retryAfterMs !== undefined) {
+    const ms = parseFloat(retryAfterMs);
+    if (Number.isFinite(ms)) return Math.max(0, ms);
+  }
+
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (retryAfter === undefined) return undefined;
+
+  const seconds = parseFloat(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  if (Number.isFinite(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * HTTP status of a provider error, if any
+ */
+export function getErrorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.statusCode ?? error?.$metadata?.httpStatusCode;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Network-level error codes worth retrying (connection resets, DNS hiccups, socket timeouts)
+ */
+const RETRYABLE_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT'
+];
+
+/**
+ * Generic classification shared by all providers
+ * Retryable: 408, 409, 429, 5xx (incl. 529 overloaded) and network errors
+ */
+export function classifyHttpError(error: any): ErrorClassification {
+  if (error instanceof AbortError) {
+    return { retryable: false };
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    const retryable = status === 408 || status === 409 || status === 429 || status >= 500;
+    return {
+      retryable,
+      retryAfterMs: retryable ? parseRetryAfter(error?.headers) : undefined
+    };
+  }
+
+  const code = error?.code ?? error?.cause?.code;
+  return { retryable: typeof code === 'string' && RETRYABLE_NETWORK_CODES.includes(code) };
+}
+
+/**
+ * Wait for ms, rejecting with an AbortError if the signal aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError(getAbortReason(signal)));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError(getAbortReason(signal!)));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
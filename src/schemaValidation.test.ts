@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { validateSchema } from './schemaValidation.js';
+
+describe('schemaValidation', () => {
+  const orderSchema = {
+    type: 'object',
+    properties: {
+      orderId: { type: 'string', pattern: '^ord_' },
+      quantity: { type: 'integer', minimum: 1, maximum: 10 },
+      priority: { enum: ['low', 'high'] },
+      items: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: { sku: { type: 'string' }, price: { type: 'number', exclusiveMinimum: 0 } },
+          required: ['sku'],
+          additionalProperties: false
+        }
+      },
+      note: { type: 'string', nullable: true }
+    },
+    required: ['orderId', 'items']
+  };
+
+  it('should accept valid values', () => {
+    expect(validateSchema({
+      orderId: 'ord_1',
+      quantity: 2,
+      priority: 'high',
+      items: [{ sku: 'A', price: 9.5 }],
+      note: null
+    }, orderSchema)).toEqual([]);
+  });
+
+  it('should report every problem with its path', () => {
+    expect(validateSchema({
+      orderId: 'x1',
+      quantity: 2.5,
+      priority: 'urgent',
+      items: [{ price: 0, color: 'red' }, 'B']
+    }, orderSchema)).toEqual([
+      '$.orderId must match pattern ^ord_',
+      '$.quantity must be integer, got number',
+      '$.priority must be one of "low", "high"',
+      '$.items[0].sku is required',
+      '$.items[0].price must be > 0',
+      '$.items[0].color is not allowed',
+      '$.items[1] must be object, got string'
+    ]);
+  });
+
+  it('should report missing required properties', () => {
+    expect(validateSchema({}, orderSchema)).toEqual(['$.orderId is required', '$.items is required']);
+  });
+
+  it('should check string and array bounds', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        code: { type: 'string', minLength: 2, maxLength: 3 },
+        tags: { type: 'array', maxItems: 2, uniqueItems: true }
+      }
+    };
+
+    expect(validateSchema({ code: 'a', tags: ['x', 'x', 'y'] }, schema)).toEqual([
+      '$.code must have at least 2 characters',
+      '$.tags must have at most 2 items',
+      '$.tags must not contain duplicate items'
+    ]);
+  });
+
+  it('should support type unions and combinators', () => {
+    expect(validateSchema(1, { type: ['string', 'number'] })).toEqual([]);
+    expect(validateSchema(true, { type: ['string', 'number'] })).toEqual(['$ must be string or number, got boolean']);
+
+    const anyOf = { anyOf: [{ type: 'string' }, { type: 'number', minimum: 5 }] };
+    expect(validateSchema(7, anyOf)).toEqual([]);
+    expect(validateSchema(1, anyOf)).toEqual([
+      '$ must match at least one of the allowed schemas ($ must be string, got number; $ must be >= 5)'
+    ]);
+
+    const oneOf = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+    expect(validateSchema(1.5, oneOf)).toEqual([]);
+    expect(validateSchema(1, oneOf)).toEqual(['$ must match exactly one of the allowed schemas, matched 2']);
+  });
+
+  it('should resolve local $ref', () => {
+    const schema = {
+      type: 'object',
+      properties: { address: { $ref: '#/$defs/address' } },
+      $defs: { address: { type: 'object', required: ['city'] } }
+    };
+
+    expect(validateSchema({ address: {} }, schema)).toEqual(['$.address.city is required']);
+  });
+
+  it('should quote property names that are not identifiers', () => {
+    const schema = { type: 'object', properties: { 'first-name': { type: 'string' } } };
+    expect(validateSchema({ 'first-name': 1 }, schema)).toEqual(['$["first-name"] must be string, got number']);
+  });
+});
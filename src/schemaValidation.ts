@@ -0,0 +1,215 @@
+/**
+ * Schema Validation
+ *
+ * Minimal JSON Schema validator for tool arguments - no dependencies, no network.
+ * Covers the subset used by tool parameter schemas: type, enum, const, properties,
+ * required, additionalProperties, items, string/number/array bounds, pattern,
+ * anyOf/oneOf/allOf, nullable and local $ref (#/$defs/..., #/definitions/...).
+ */
+
+/**
+ * Validate a value against a JSON Schema
+ * Returns one message per problem, each starting with the JSON path ($ is the root)
+ */
+export function validateSchema(value: any, schema: any, root: any = schema): string[] {
+  return validateAt(value, schema, '$', root);
+}
+
+/**
+ * JSON type name of a value ('integer' is reported as 'number')
+ */
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Whether a value matches a single JSON Schema type
+ */
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Resolve a local $ref against the root schema
+ */
+function resolveRef(ref: string, root: any): any {
+  if (!ref.startsWith('#')) {
+    throw new Error(`[schemaValidation] Only local $ref is supported, got ${ref}`);
+  }
+
+  let target = root;
+  for (const part of ref.slice(1).split('/').filter(Boolean)) {
+    target = target?.[part.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+
+  if (target === undefined) {
+    throw new Error(`[schemaValidation] Cannot resolve $ref ${ref}`);
+  }
+  return target;
+}
+
+/**
+ * Path of an object property, using bracket notation for keys that aren't identifiers
+ */
+function propertyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function validateAt(value: any, schema: any, path: string, root: any): string[] {
+  // true / missing schemas accept anything, false rejects everything
+  if (schema === undefined || schema === true) return [];
+  if (schema === false) return [`${path} is not allowed`];
+  if (typeof schema !== 'object') return [];
+
+  if (schema.$ref) {
+    return validateAt(value, resolveRef(schema.$ref, root), path, root);
+  }
+
+  if (value === null && schema.nullable === true) {
+    return [];
+  }
+
+  const errors: string[] = [];
+
+  // Type
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path} must be ${types.join(' or ')}, got ${typeOf(value)}`);
+      // Further keywords would only repeat the type problem
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option: any) => deepEqual(option, value))) {
+    errors.push(`${path} must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  // Strings
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${path} must match pattern ${schema.pattern}`);
+    }
+  }
+
+  // Numbers
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${path} must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${path} must be < ${schema.exclusiveMaximum}`);
+    }
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+      errors.push(`${path} must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  // Arrays
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems && value.some((item, i) => value.findIndex(other => deepEqual(other, item)) !== i)) {
+      errors.push(`${path} must not contain duplicate items`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, i) => {
+        const itemSchema = Array.isArray(schema.items) ? schema.items[i] : schema.items;
+        errors.push(...validateAt(item, itemSchema, `${path}[${i}]`, root));
+      });
+    }
+  }
+
+  // Objects
+  if (typeOf(value) === 'object') {
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${propertyPath(path, key)} is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (key in properties) {
+        errors.push(...validateAt(propertyValue, properties[key], propertyPath(path, key), root));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propertyPath(path, key)} is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAt(propertyValue, schema.additionalProperties, propertyPath(path, key), root));
+      }
+    }
+  }
+
+  // Combinators
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      errors.push(...validateAt(value, subschema, path, root));
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const results = schema.anyOf.map((subschema: any) => validateAt(value, subschema, path, root));
+    if (!results.some((result: string[]) => result.length === 0)) {
+      errors.push(`${path} must match at least one of the allowed schemas (${results.map((r: string[]) => r[0]).join('; ')})`);
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const results = schema.oneOf.map((subschema: any) => validateAt(value, subschema, path, root));
+    const matches = results.filter((result: string[]) => result.length === 0).length;
+    if (matches === 0) {
+      errors.push(`${path} must match one of the allowed schemas (${results.map((r: string[]) => r[0]).join('; ')})`);
+    } else if (matches > 1) {
+      errors.push(`${path} must match exactly one of the allowed schemas, matched ${matches}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Structural equality for enum/const/uniqueItems checks
+ */
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeOf(a) !== typeOf(b) || typeof a !== 'object' || a === null) return false;
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => deepEqual(a[key], b[key]));
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate } from './template.js';
+
+describe('template', () => {
+  it('should replace variables and leave unknown ones as written', () => {
+    expect(renderTemplate('Hi {name}, {missing}', { name: 'Ada' })).toBe('Hi Ada, {missing}');
+  });
+
+  it('should leave JSON examples alone and render escaped braces literally', () => {
+    expect(renderTemplate('Reply with {"status": "ok"}', { status: 'x' })).toBe('Reply with {"status": "ok"}');
+    expect(renderTemplate('Use \\{name\\} as a placeholder for {name}', { name: 'Ada' }))
+      .toBe('Use {name} as a placeholder for Ada');
+  });
+
+  it('should resolve dotted paths', () => {
+    const variables = { user: { name: 'Ada', address: { city: 'London' } }, items: ['a', 'b'] };
+    expect(renderTemplate('{user.name} from {user.address.city}, first: {items.0}', variables))
+      .toBe('Ada from London, first: a');
+    expect(renderTemplate('{user.phone}', variables)).toBe('{user.phone}');
+  });
+
+  it('should prefer exact keys over dotted paths', () => {
+    expect(renderTemplate('{a.b}', { 'a.b': 'exact', a: { b: 'path' } })).toBe('exact');
+  });
+
+  it('should apply filters', () => {
+    const variables = { name: 'Ada', data: { a: 1 }, text: 'quote "this"', empty: '' };
+    expect(renderTemplate('{name | upper} {name | lower}', variables)).toBe('ADA ada');
+    expect(renderTemplate('{data | json} {text | json}', variables)).toBe('{"a":1} "quote \\"this\\""');
+    expect(renderTemplate('{tone | default: "friendly"} {empty | default: none}', variables)).toBe('friendly none');
+    expect(renderTemplate('{tone | default: "a|b" | upper}', variables)).toBe('A|B');
+  });
+
+  it('should leave unknown filters as written', () => {
+    expect(renderTemplate('{name | reverse}', { name: 'Ada' })).toBe('{name | reverse}');
+  });
+
+  it('should render conditionals', () => {
+    const template = '{#if premium}Priority support{:else}Standard support{/if}{#if !tags} (untagged){/if}';
+    expect(renderTemplate(template, { premium: true, tags: [] })).toBe('Priority support (untagged)');
+    expect(renderTemplate(template, { premium: false, tags: ['x'] })).toBe('Standard support');
+  });
+
+  it('should render loops with index and else', () => {
+    const template = '{#each orders as order, i}{i}. {order.id} ({@index})\n{:else}No orders{/each}';
+    expect(renderTemplate(template, { orders: [{ id: 'A' }, { id: 'B' }] })).toBe('0. A (0)\n1. B (1)\n');
+    expect(renderTemplate(template, { orders: [] })).toBe('No orders');
+  });
+
+  it('should nest blocks and see outer variables', () => {
+    const template = '{#each users as user}{#if user.admin}{user.name}@{team} {/if}{/each}';
+    expect(renderTemplate(template, { team: 'core', users: [{ name: 'a', admin: true }, { name: 'b' }] }))
+      .toBe('a@core ');
+  });
+
+  it('should throw on unbalanced blocks', () => {
+    expect(() => renderTemplate('{#if a}open', {})).toThrow('[template] Unclosed {#if a}');
+    expect(() => renderTemplate('{#if a}x{/each}', {})).toThrow('[template] Unexpected {/each}');
+    expect(() => renderTemplate('{:else}', {})).toThrow('[template] {:else} outside of {#if} or {#each}');
+    expect(() => renderTemplate('{#each items}x{/each}', {})).toThrow('[template] Invalid loop');
+  });
+});
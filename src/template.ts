@@ -0,0 +1,243 @@
+/**
+ * Template
+ *
+ * Renders prompt chunks with variables. Syntax:
+ * - {name}, {user.address.city}, {items.0}   variables and dotted paths
+ * - {name | upper}, {data | json}, {tone | default: "friendly"}   filters (json, upper, lower, default)
+ * - {#if var}...{:else}...{/if}, {#if !var}...{/if}   conditionals
+ * - {#each items as item, i}...{:else}...{/each}   loops over array variables ({@index} is the position)
+ * - \{ and \}   literal braces
+ *
+ * Tags that aren't valid expressions (JSON examples, unknown filters) and variables without a value are left as-is.
+ * Block references ({component.x}) are resolved by BaseExecutor before rendering.
+ */
+
+import { formatVariable } from './variables.js';
+
+type Node =
+  | { type: 'text'; text: string }
+  | { type: 'var'; raw: string; path: string; filters: Filter[] }
+  | { type: 'if'; path: string; negate: boolean; then: Node[]; else: Node[] }
+  | { type: 'each'; path: string; item: string; index?: string; body: Node[]; else: Node[] };
+
+interface Filter {
+  name: string;
+  arg?: string;
+}
+
+type Scope = Record<string, any>[];
+
+const FILTERS = ['json', 'upper', 'lower', 'default'];
+
+// Escaped brace, or a tag without nested braces
+const TOKEN = /\\([{}])|\{([^{}]*)\}/g;
+const PATH = /^@?[\w$-]+(\.[\w$-]+)*$/;
+const FILTER = /^([a-z]+)(?:\s*:\s*(.*))?$/;
+const EACH = /^(\S+)\s+as\s+([\w$]+)(?:\s*,\s*([\w$]+))?$/;
+
+/**
+ * Render a template with variables
+ * Throws on unbalanced blocks ({#if} without {/if}) and malformed loops
+ */
+export function renderTemplate(template: string, variables: Record<string, any>): string {
+  if (!template) return '';
+  return renderNodes(parse(template), [variables]);
+}
+
+/**
+ * Parse a template into a tree of nodes
+ */
+function parse(template: string): Node[] {
+  const root: Node[] = [];
+  // Open blocks, innermost last; target is where the next node goes
+  const stack: Array<{ node: Extract<Node, { type: 'if' | 'each' }>; target: Node[] }> = [];
+  let target = root;
+  let lastIndex = 0;
+
+  const pushText = (text: string) => {
+    if (text) target.push({ type: 'text', text });
+  };
+
+  for (const match of template.matchAll(TOKEN)) {
+    pushText(template.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    if (match[1] !== undefined) {
+      pushText(match[1]);
+      continue;
+    }
+
+    const tag = match[2].trim();
+
+    if (tag.startsWith('#if ')) {
+      const condition = tag.slice(4).trim();
+      const negate = condition.startsWith('!');
+      const node: Node = { type: 'if', path: negate ? condition.slice(1).trim() : condition, negate, then: [], else: [] };
+      target.push(node);
+      stack.push({ node, target: node.then });
+      target = node.then;
+    } else if (tag.startsWith('#each ')) {
+      const each = EACH.exec(tag.slice(6).trim());
+      if (!each) {
+        throw new Error(`[template] Invalid loop: {${tag}} (expected {#each items as item})`);
+      }
+      const node: Node = { type: 'each', path: each[1], item: each[2], index: each[3], body: [], else: [] };
+      target.push(node);
+      stack.push({ node, target: node.body });
+      target = node.body;
+    } else if (tag === ':else') {
+      const open = stack[stack.length - 1];
+      if (!open) {
+        throw new Error('[template] {:else} outside of {#if} or {#each}');
+      }
+      open.target = open.node.else;
+      target = open.node.else;
+    } else if (tag === '/if' || tag === '/each') {
+      const open = stack.pop();
+      if (!open || `/${open.node.type}` !== tag) {
+        throw new Error(`[template] Unexpected {${tag}}`);
+      }
+      target = stack.length > 0 ? stack[stack.length - 1].target : root;
+    } else {
+      target.push(parseExpression(match[0], tag));
+    }
+  }
+
+  pushText(template.slice(lastIndex));
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node;
+    throw new Error(`[template] Unclosed {#${open.type} ${open.path}}`);
+  }
+
+  return root;
+}
+
+/**
+ * Parse {path | filter | filter: arg}; anything else is literal text
+ */
+function parseExpression(raw: string, tag: string): Node {
+  const [path, ...filterParts] = splitFilters(tag);
+  if (!PATH.test(path)) {
+    return { type: 'text', text: raw };
+  }
+
+  const filters: Filter[] = [];
+  for (const part of filterParts) {
+    const filter = FILTER.exec(part);
+    if (!filter || !FILTERS.includes(filter[1])) {
+      return { type: 'text', text: raw };
+    }
+    filters.push({ name: filter[1], arg: filter[2] !== undefined ? unquote(filter[2].trim()) : undefined });
+  }
+
+  return { type: 'var', raw, path, filters };
+}
+
+/**
+ * Split an expression on | outside of quotes
+ */
+function splitFilters(tag: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+
+  for (const char of tag) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+
+  return parts;
+}
+
+function unquote(value: string): string {
+  const quoted = /^(["'])(.*)\1$/s.exec(value);
+  return quoted ? quoted[2] : value;
+}
+
+/**
+ * Look up a variable or dotted path, innermost scope first
+ * An exact key wins over a dotted path, so variables named "a.b" keep working
+ */
+function lookup(path: string, scope: Scope): any {
+  for (let i = scope.length - 1; i >= 0; i--) {
+    const frame = scope[i];
+    if (frame[path] !== undefined) return frame[path];
+
+    const [head, ...rest] = path.split('.');
+    if (rest.length > 0 && frame[head] !== undefined) {
+      return rest.reduce((value, key) => (value == null ? undefined : value[key]), frame[head]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Truthiness for {#if}: empty arrays and empty strings are false
+ */
+function isTruthy(value: any): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function applyFilter(value: any, filter: Filter): any {
+  switch (filter.name) {
+    case 'default':
+      return value === undefined || value === null || value === '' ? filter.arg : value;
+    case 'json':
+      return value === undefined ? undefined : JSON.stringify(value);
+    case 'upper':
+      return value === undefined ? undefined : formatVariable(value).toUpperCase();
+    case 'lower':
+      return value === undefined ? undefined : formatVariable(value).toLowerCase();
+  }
+}
+
+function renderNodes(nodes: Node[], scope: Scope): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.text;
+        break;
+
+      case 'var': {
+        const value = node.filters.reduce(applyFilter, lookup(node.path, scope));
+        // Unknown variables are left as written
+        output += value === undefined ? node.raw : formatVariable(value);
+        break;
+      }
+
+      case 'if': {
+        const truthy = isTruthy(lookup(node.path, scope));
+        output += renderNodes(truthy !== node.negate ? node.then : node.else, scope);
+        break;
+      }
+
+      case 'each': {
+        const items = lookup(node.path, scope);
+        if (!Array.isArray(items) || items.length === 0) {
+          output += renderNodes(node.else, scope);
+          break;
+        }
+        items.forEach((item, index) => {
+          const frame: Record<string, any> = { [node.item]: item, '@index': index };
+          if (node.index) frame[node.index] = index;
+          output += renderNodes(node.body, [...scope, frame]);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
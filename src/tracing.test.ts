@@ -426,4 +426,53 @@ describe('Tracing', () => {
     // Note: finish_agent_run does NOT send a separate toolTrace
     // It's captured in the final turnTrace instead
   });
+
+  it('should link traces of nested executions to the parent execution', async () => {
+    const manifest: Manifest = {
+      name: 'researcher',
+      system: [{ name: 'main', content: 'Research things.' }],
+      user: [{ name: 'main', content: 'Go.' }],
+      blocks: [],
+      variables: [],
+      tools: [],
+      models: [{ provider: 'anthropic', name: 'claude-sonnet-4-5', metadata: {} }]
+    } as any;
+
+    mockCreate.mockResolvedValueOnce({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text: 'Findings' }],
+      model: 'claude-sonnet-4-5',
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 100, output_tokens: 50 }
+    });
+
+    const executor = await createExecutor({
+      manifest,
+      credentials: { anthropic: { apiKey: 'test-key' } },
+      executionId: 'child-1',
+      depth: 1,
+      tracing: {
+        enabled: true,
+        apiUrl: 'http://localhost:3004',
+        tenantId: 'test-tenant',
+        serviceKey: 'test-key',
+        promptName: 'researcher',
+        parentExecutionId: 'parent-1',
+        parentToolCallId: 'call_7'
+      }
+    });
+
+    await executor.execute();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const payload = JSON.parse(fetchSpy.mock.calls[0][1].body);
+    expect(payload.metadata).toMatchObject({
+      executionId: 'child-1',
+      parentExecutionId: 'parent-1',
+      parentToolCallId: 'call_7',
+      depth: 1
+    });
+  });
 });
@@ -3,9 +3,10 @@
  */
 export interface VariableDefinition {
   name: string;
-  type: string;
+  type: string; // string, number, boolean, enum, array or json (other types are not checked)
   required: boolean;
-  default?: any;
+  default?: any; // Used when the variable is not provided
+  enum?: Array<string | number | boolean>; // Allowed values for type 'enum'
 }
 
 /**
@@ -27,6 +28,7 @@ export interface ToolFunction {
 export interface ToolDefinition {
   type: 'function';
   function: ToolFunction;
+  requiresApproval?: boolean; // Pause the execution for human approval before running (not sent to the provider)
 }
 
 /**
@@ -35,12 +37,32 @@ export interface ToolDefinition {
  * All other fields are provider-specific and passed through
  */
 export interface ModelConfig {
-  provider: 'anthropic' | 'openai' | 'bedrock' | 'deepseek' | 'google';
+  provider: 'anthropic' | 'openai' | 'bedrock' | 'deepseek' | 'google' | 'mock';
   name: string;
   modelDefKey?: string;
+  weight?: number; // Relative selection weight when manifest.modelSampling is enabled (default: 1)
+  script?: MockScript; // mock provider: the assistant turns to play
   [key: string]: any; // Provider-specific parameters
 }
 
+/**
+ * One assistant turn played by the mock provider
+ * A string is shorthand for a text-only turn.
+ */
+export type MockTurn = string | {
+  content?: string;
+  reasoning?: string;
+  tool_calls?: Array<{ id?: string; name: string; args?: Record<string, any> }>; // Ids default to mock_call_<n>
+  usage?: { input_tokens?: number; output_tokens?: number }; // Default: 0 tokens
+  finishReason?: FinishReason; // Default: tool_calls when the turn has tool calls, stop otherwise
+};
+
+/**
+ * Mock provider script - turns played in order, or a function that returns the next turn
+ * The function gets the message history and the 0-based index of the call; throw to simulate a provider error.
+ */
+export type MockScript = MockTurn[] | ((messages: Message[], context: { call: number; options: InvokeOptions }) => MockTurn | Promise<MockTurn>);
+
 /**
  * Chunk - A piece of prompt text
  */
@@ -81,6 +103,28 @@ export interface Manifest {
   models: ModelConfig[];
   modelSampling?: boolean;
   scenarios?: Scenario[];
+  terminatingTools?: string[]; // Tools whose call ends the run, their args being the result (default: finish_agent_run, output)
+  toolErrorPolicy?: ToolErrorPolicy;
+  promptCache?: boolean | PromptCacheConfig;
+}
+
+/**
+ * Prompt cache breakpoints (Anthropic cache_control, Bedrock cache points)
+ * true enables all breakpoints. OpenAI, DeepSeek and Gemini cache prompts automatically.
+ */
+export interface PromptCacheConfig {
+  system?: boolean; // Breakpoint after the system prompt (default: true)
+  tools?: boolean; // Breakpoint after the tool definitions (default: true)
+  conversation?: boolean; // Breakpoint after the latest message, so the next turn reads the conversation from cache (default: true)
+}
+
+/**
+ * How tool handler errors are handled
+ */
+export interface ToolErrorPolicy {
+  maxErrors?: number; // Consecutive errors of one tool before onMaxErrors applies (default: 3)
+  exposeErrors?: boolean; // Send the handler's error message to the model instead of a generic one (default: false)
+  onMaxErrors?: 'abort' | 'remove'; // Fail the run with TOOL_FAILED, or remove the tool and continue without it (default: 'abort')
 }
 
 /**
@@ -101,6 +145,16 @@ export interface Message {
   tool_calls?: ToolCall[];
   tool_call_id?: string;
   name?: string;
+  reasoning?: MessageReasoning; // Assistant messages of reasoning models
+}
+
+/**
+ * Reasoning (thinking) the model did before an assistant message
+ */
+export interface MessageReasoning {
+  text: string; // Readable reasoning (a summary for models that only expose summaries)
+  provider: string; // Provider that produced it - blocks are only sent back to the same provider
+  blocks?: any[]; // Provider blocks sent back unchanged on later turns (Anthropic thinking blocks, Bedrock reasoningContent), with their signatures
 }
 
 /**
@@ -150,13 +204,44 @@ export interface ProviderCredentials {
   };
 }
 
+/**
+ * Context passed to a tool handler alongside its args
+ */
+export interface ToolContext {
+  toolCall: ToolCall;
+  signal: AbortSignal; // Aborted when the execution is cancelled or times out
+  execution?: ParentExecution; // The execution calling the tool, for tools that run nested executions
+}
+
+/**
+ * The execution calling a tool, as seen by tools that run nested executions (prompt tools)
+ */
+export interface ParentExecution {
+  executionId?: string;
+  promptName: string;
+  depth: number; // 0 for a top-level execution
+  maxDepth: number;
+  tracing?: TracingConfig;
+  addUsage: (usage: Usage) => void; // Roll a nested execution's tokens and cost into this execution's usage
+}
+
 /**
  * Tool handler with execute method
  */
 export interface ToolHandler {
-  execute: (args: any) => Promise<any>;
+  execute: (args: any, context?: ToolContext) => Promise<any>;
+  requiresApproval?: boolean | ((args: any, toolCall: ToolCall) => boolean); // Pause for human approval before running
 }
 
+/**
+ * Human decision on a tool call an execution is awaiting approval for
+ * edit runs the tool with the given args instead of the model's
+ */
+export type ToolApprovalDecision =
+  | { toolCallId: string; decision: 'approve' }
+  | { toolCallId: string; decision: 'reject'; reason?: string }
+  | { toolCallId: string; decision: 'edit'; args: Record<string, any> };
+
 /**
  * Tool router - maps tool names to handlers with execute method
  * Excludes built-in tools: finish_agent_run, fetch_available_scenarios, fetch_scenario_specific_instructions
@@ -170,37 +255,216 @@ export interface ToolCallCallback {
   (params: { toolCall: ToolCall; toolResponse: any }): Promise<{ abort?: boolean } | void>;
 }
 
+/**
+ * Context passed to every middleware hook
+ */
+export interface MiddlewareContext {
+  promptName: string;
+  turn: number; // LLM turn the hook belongs to
+  signal: AbortSignal; // Aborted when the execution is cancelled or times out
+}
+
+/**
+ * What beforeInvoke may return: a replacement request, or a result that skips the provider call
+ */
+export type BeforeInvokeResult = { messages?: Message[]; options?: InvokeOptions } | { result: InvokeResult } | void;
+
+/**
+ * What beforeTool may return: replacement args, a result that skips the tool, or a veto with a reason for the model
+ */
+export type BeforeToolResult = { args: Record<string, any> } | { result: any } | { reject: string } | void;
+
+/**
+ * Middleware around LLM calls and tool execution
+ * Hooks run in array order and may be async. Returning nothing keeps the value as-is;
+ * throwing vetoes the step and fails the execution (an ExecutorError keeps its code).
+ */
+export interface ExecutorMiddleware {
+  name?: string;
+  // Replaced messages are only sent to the provider - the execution's history is unchanged
+  beforeInvoke?: (messages: Message[], options: InvokeOptions, context: MiddlewareContext) => Promise<BeforeInvokeResult> | BeforeInvokeResult;
+  // Return a replacement result (also runs for short-circuited results)
+  afterInvoke?: (result: InvokeResult, context: MiddlewareContext) => Promise<InvokeResult | void> | InvokeResult | void;
+  beforeTool?: (toolCall: ToolCall, context: MiddlewareContext) => Promise<BeforeToolResult> | BeforeToolResult;
+  // Return a replacement for the tool result sent back to the model
+  afterTool?: (toolCall: ToolCall, result: any, context: MiddlewareContext) => Promise<any> | any;
+  // Provider errors (after retries and fallback) and tool handler errors.
+  // Return a value to recover: an InvokeResult for 'invoke', the tool result for 'tool'
+  onError?: (error: Error, context: MiddlewareContext & { stage: 'invoke' | 'tool'; toolCall?: ToolCall }) => Promise<any> | any;
+}
+
 /**
  * Usage tracking with cost
  */
 export interface Usage {
-  inputTokens: number;
+  inputTokens: number; // Including cached tokens
   outputTokens: number;
   totalCostUSD: number;
+  cacheReadInputTokens?: number; // Input tokens read from the prompt cache (set once a provider reports caching)
+  cacheCreationInputTokens?: number; // Input tokens written to the prompt cache
+  reasoningTokens?: number; // Output tokens spent on reasoning (set once a provider reports them)
 }
 
+/**
+ * Why the model stopped generating, normalized across providers
+ */
+export type FinishReason = 'stop' | 'tool_calls' | 'length' | 'content_filter' | 'other';
+
 /**
  * LLM invocation result
  */
 export interface InvokeResult {
   message: Message;
   usage?: {
-    input_tokens: number;
+    input_tokens: number; // All input tokens, including the cached ones below
     output_tokens: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+    reasoning_tokens?: number; // Part of output_tokens
   };
+  finishReason?: FinishReason;
+}
+
+/**
+ * Pre-flight estimate of the first LLM call of an execution (see BaseExecutor.estimate)
+ */
+export interface ExecutionEstimate {
+  provider: string;
+  model: string;
+  inputTokens: number; // Rendered system and user messages, files and tool definitions
+  outputTokens: { min: number; max: number }; // From a short reply up to the model's max output tokens
+  costUSD: { min: number; max: number }; // With the model's pricing (the default pricing when unknown)
+}
+
+/**
+ * Record of one LLM turn within an execution
+ */
+export interface TurnRecord {
+  turn: number;
+  provider: string;
+  model: string;
+  fallback: boolean; // True when served by a fallback model instead of the primary
+  retries?: number; // Retried attempts before the turn succeeded (omitted when 0)
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens?: number; // Omitted when 0
+  cacheCreationInputTokens?: number; // Omitted when 0
+  reasoningTokens?: number; // Omitted when 0
+  costUSD: number;
+  latencyMs: number; // Wall time of the turn, including retries and fallback
+  finishReason?: FinishReason;
+}
+
+/**
+ * Record of one tool call within an execution
+ */
+export interface ToolCallRecord {
+  turn: number; // LLM turn that requested the call
+  id: string;
+  name: string;
+  durationMs: number;
+  status: 'success' | 'error' | 'cancelled' | 'rejected';
+}
+
+/**
+ * Error codes reported in ExecutionResult.error
+ */
+export type ExecutionErrorCode =
+  | 'VARIABLE_MISSING'
+  | 'VARIABLE_INVALID' // A variable doesn't match its declared type (message lists every variable problem)
+  | 'TEMPLATE_INVALID' // Malformed template in a prompt chunk or block (unclosed {#if}, invalid {#each})
+  | 'MAX_MESSAGES_EXCEEDED'
+  | 'NO_TERMINATING_TOOL'
+  | 'PROVIDER_RATE_LIMIT'
+  | 'PROVIDER_AUTH'
+  | 'PROVIDER_ERROR' // Any other provider failure (invalid request, 5xx after retries, network)
+  | 'TOOL_FAILED'
+  | 'OUTPUT_INVALID' // Terminating tool output still failed its schema after the corrective retries
+  | 'BUDGET_EXCEEDED'
+  | 'CANCELLED'
+  | 'TIMEOUT'
+  | 'UNKNOWN';
+
+/**
+ * Structured error of a failed execution
+ */
+export interface ExecutionError {
+  code: ExecutionErrorCode;
+  message: string;
+  provider?: string; // Provider that failed (provider errors only)
+  retryable: boolean; // Whether running the execution again may succeed
+  turn?: number; // LLM turn (1-based) during which the error occurred
+}
+
+/**
+ * Final status of an execution
+ */
+export type ExecutionStatus = 'completed' | 'failed' | 'cancelled' | 'timeout' | 'awaiting_approval';
+
+/**
+ * Result of an execution that was cancelled or timed out
+ */
+export interface AbortedOutput {
+  ok: false;
+  status: ExecutionStatus;
 }
 
 /**
  * Execution result
+ * result is T only when ok is true - a failed execution has null, the partial output or an AbortedOutput
+ */
+export type ExecutionResult<T = any> = ExecutionResultFields & (
+  | { ok: true; result: T } // Terminating tool args (validated against its schema), raw content without a tool loop
+  | { ok: false; result: T | AbortedOutput | null }
+);
+
+/**
+ * Execution result fields shared by successful and failed executions
  */
-export interface ExecutionResult {
-  ok: boolean;
+export interface ExecutionResultFields {
+  status?: ExecutionStatus;
   usage: Usage;
-  result: any;
   messages: Message[];
-  error?: string;
+  model?: { provider: string; name: string }; // Primary model of the execution (the sampled model when modelSampling is on)
+  turns?: TurnRecord[]; // Per-turn model, tokens, cost, latency and finish reason
+  toolCalls?: ToolCallRecord[]; // Per-tool-call timeline, in completion order
+  error?: ExecutionError; // Present when ok is false
+  executionId?: string; // Key of the execution's checkpoints (present when checkpointing)
+  pendingApprovals?: ToolCall[]; // Tool calls waiting for a decision (status 'awaiting_approval')
+  checkpoint?: ExecutionCheckpoint; // Resume with decisions via resumeExecution (status 'awaiting_approval')
 }
 
+/**
+ * Incremental output emitted by a provider adapter while a response streams in
+ */
+export type StreamDelta =
+  | { type: 'text_delta'; text: string }
+  | { type: 'reasoning_delta'; text: string }
+  | { type: 'tool_call_start'; id: string; name: string }
+  | { type: 'tool_call_delta'; id: string; argsDelta: string };
+
+/**
+ * Callback receiving stream deltas from a provider adapter
+ */
+export type StreamDeltaCallback = (delta: StreamDelta) => void;
+
+/**
+ * Event yielded by executeStream()
+ * Deltas are tagged with the turn (1-based LLM invocation count) they belong to
+ */
+export type StreamEvent =
+  | { type: 'turn_start'; turn: number }
+  | (StreamDelta & { turn: number })
+  | { type: 'tool_result'; turn: number; toolCall: ToolCall; content: any }
+  | { type: 'retry'; turn: number; attempt: number; delayMs: number; error: string } // Deltas already emitted for the failed attempt are superseded
+  | {
+      type: 'turn_end';
+      turn: number;
+      message: Message;
+      usage: { input_tokens: number; output_tokens: number };
+    }
+  | { type: 'result'; result: ExecutionResult };
+
 /**
  * Tracing configuration for observability
  */
@@ -212,6 +476,8 @@ export interface TracingConfig {
   promptName?: string;
   etag?: string;
   tags?: string[];
+  parentExecutionId?: string; // Execution that ran this one as a prompt tool
+  parentToolCallId?: string; // Tool call of the parent execution that ran this one
 }
 
 /**
@@ -223,6 +489,91 @@ export interface ModelPricing {
   inputTokensPer1M: number;
   outputTokensPer1M: number;
   currency: string;
+  contextWindow?: number; // Model context window in tokens
+  cacheReadTokensPer1M?: number; // Default: 10% of the input rate on Anthropic and Bedrock, otherwise the input rate
+  cacheWriteTokensPer1M?: number; // Default: 125% of the input rate on Anthropic and Bedrock, otherwise the input rate
+}
+
+/**
+ * Built-in context window strategies (see contextWindow.ts)
+ */
+export type ContextStrategyName = 'trim-tool-outputs' | 'drop-tool-results' | 'summarize';
+
+/**
+ * Custom context window strategy
+ * Returns the messages to continue with; tool calls and their results must stay paired.
+ */
+export type ContextStrategyFunction = (
+  messages: Message[],
+  context: { limit: number; estimateTokens: (messages: Message[]) => number }
+) => Message[] | Promise<Message[]>;
+
+/**
+ * Context window management, applied before every LLM turn
+ * Strategies run in order until the estimated request fits. Changes are kept in the
+ * execution's messages, so later turns (and continued chat sessions) stay small.
+ */
+export interface ContextWindowConfig {
+  strategy?: ContextStrategyName | ContextStrategyFunction | Array<ContextStrategyName | ContextStrategyFunction>; // Default: ['trim-tool-outputs', 'drop-tool-results']
+  maxTokens?: number; // Context window in tokens (default: the model's contextWindow from the Studio API)
+  reserveOutputTokens?: number; // Tokens kept free for the response (default: 4096)
+  keepRecentMessages?: number; // Most recent messages the built-in strategies never change (default: 6)
+  maxToolOutputTokens?: number; // trim-tool-outputs: size tool results are trimmed to (default: 1000)
+  summaryModel?: ModelConfig; // summarize: model that writes the summary (default: the model serving the execution)
+}
+
+/**
+ * Retry policy for transient provider errors
+ */
+export interface RetryPolicy {
+  maxAttempts?: number; // Attempts per turn and model, including the first (default: 3)
+  initialDelayMs?: number; // Delay before the first retry (default: 1000)
+  maxDelayMs?: number; // Upper bound for any delay, including retry-after (default: 30000)
+  backoffMultiplier?: number; // Delay growth per attempt (default: 2)
+  jitter?: boolean; // Randomize delays between 0 and the backoff (default: true)
+}
+
+/**
+ * How a provider adapter classifies an error from its SDK
+ */
+export interface ErrorClassification {
+  retryable: boolean;
+  retryAfterMs?: number; // Provider hint (retry-after header, RetryInfo)
+}
+
+/**
+ * Serializable execution state saved after every tool loop turn
+ * Taken once the turn's tool results are in the message stack, so resuming starts with the next LLM turn.
+ * Checkpoints of executions awaiting approval end with the tool calls that still have to run.
+ */
+export interface ExecutionCheckpoint {
+  version: 1;
+  executionId: string;
+  turn: number; // Last completed LLM turn
+  createdAt: string; // ISO timestamp
+  manifest: Manifest;
+  etag?: string; // Manifest etag (from tracing config) the execution started with
+  variables: Record<string, any>;
+  model: ModelConfig; // Model serving the execution (a fallback model once fallback happened)
+  messages: Message[];
+  usage: Usage;
+  turns: TurnRecord[];
+  toolCalls: ToolCallRecord[];
+  toolErrorCount: Record<string, number>;
+  removedTools?: string[]; // Tools removed by the tool error policy
+  forceNextTool?: string;
+  historyLength?: number; // Messages passed in as history (not counted toward maxMessages)
+  removedMessages?: number; // Messages removed by the context window (still counted toward maxMessages)
+  awaitingApproval?: boolean; // The last message's tool calls have not run yet and wait for approval decisions
+}
+
+/**
+ * Persistence for execution checkpoints
+ */
+export interface CheckpointStore {
+  save(executionId: string, checkpoint: ExecutionCheckpoint): Promise<void>;
+  load(executionId: string): Promise<ExecutionCheckpoint | undefined>;
+  delete(executionId: string): Promise<void>;
 }
 
 /**
@@ -234,7 +585,9 @@ export interface BaseExecutorConfig {
   toolRouter?: ToolRouter;
   credentials: ProviderCredentials;
   messages?: Message[];
+  userMessage?: string; // Chat message: appended as the next user turn when continuing messages, otherwise added after the manifest user chunks
   onToolCall?: ToolCallCallback;
+  middleware?: ExecutorMiddleware[]; // Hooks around LLM calls and tool execution, run in order
   log?: (message: string, ...args: any[]) => void;
   executorFactory?: (config: BaseExecutorConfig) => Promise<any>;
   imageCache?: any;
@@ -244,9 +597,36 @@ export interface BaseExecutorConfig {
     image_url?: { url: string };
     input_audio?: { data: string; format: string };
   }>;
-  maxMessages?: number; // Maximum messages in stack before throwing error (default: 50)
+  maxMessages?: number; // Maximum messages an execution may add before throwing error (default: 50)
   studioApiClient?: any; // Optional Studio API client for fetching model pricing
   initialToolChoice?: 'auto' | 'required' | 'none' | string; // Initial tool choice for first turn (default: 'required'). Can be 'required', 'auto', 'none', or a specific tool name
+  model?: ModelConfig; // Model to run (default: manifest.models[0]). Remaining manifest.models are used as fallbacks
+  modelFallback?: boolean; // Retry a turn on the next model in manifest.models on rate limit, overload, 5xx or auth errors (default: true)
+  samplingSeed?: number | string; // Seed for reproducible model selection when manifest.modelSampling is enabled
+  parallelToolCalls?: boolean; // Execute the tool calls of one turn concurrently (default: false)
+  toolConcurrency?: number; // Maximum concurrent tool calls when parallelToolCalls is enabled (default: 4)
+  signal?: AbortSignal; // Aborts in-flight provider calls and tools; the run ends with status 'cancelled'
+  timeoutMs?: number; // Maximum duration of the whole execution; the run ends with status 'timeout'
+  turnTimeoutMs?: number; // Maximum duration of a single LLM turn (provider call)
+  retry?: RetryPolicy | false; // Retry transient provider errors (default: 3 attempts with exponential backoff). false disables retries
+  maxCostUSD?: number; // Stop before the next turn once the execution cost reaches this amount
+  maxInputTokens?: number; // Stop before the next turn once this many input tokens were used
+  maxOutputTokens?: number; // Stop before the next turn once this many output tokens were used
+  maxTurns?: number; // Maximum LLM turns per execution
+  executionId?: string; // Key for checkpoints (default: random UUID when checkpointing)
+  checkpointStore?: CheckpointStore; // Save a checkpoint after every turn; deleted when the execution completes
+  onCheckpoint?: (checkpoint: ExecutionCheckpoint) => Promise<void> | void; // Called with every checkpoint
+  resumeFrom?: ExecutionCheckpoint; // Continue from a checkpoint (see resumeExecution)
+  approvals?: ToolApprovalDecision[]; // Decisions for the tool calls of an awaiting_approval checkpoint
+  validateToolArgs?: boolean; // Validate tool args against the tool's parameters schema before dispatch (default: true)
+  validateOutput?: boolean; // Validate the terminating tool's args against its schema before accepting them (default: true)
+  maxOutputRepairs?: number; // Corrective retries for invalid terminating tool output before OUTPUT_INVALID (default: 2)
+  terminatingTools?: string[]; // Tools that end the run (default: manifest.terminatingTools, else finish_agent_run and output)
+  toolErrorPolicy?: ToolErrorPolicy; // Overrides manifest.toolErrorPolicy field by field
+  promptCache?: boolean | PromptCacheConfig; // Prompt cache breakpoints (default: manifest.promptCache, otherwise off)
+  depth?: number; // Nesting depth when run by a prompt tool (default: 0)
+  maxDepth?: number; // Maximum nesting depth of prompt tools (default: 3)
+  contextWindow?: ContextWindowConfig; // Shrink the messages before each turn when they would exceed the model's context window
 }
 
 /**
@@ -258,4 +638,5 @@ export interface InvokeOptions {
     type: 'function';
     function: { name: string };
   };
+  signal?: AbortSignal; // Forwarded to the provider SDK request
 }
@@ -0,0 +1,41 @@
+/**
+ * Usage
+ *
+ * Token and cost accounting shared by executors and chat sessions.
+ */
+
+import type { InvokeResult, Usage } from './types.js';
+
+/**
+ * Convert a provider's usage (InvokeResult.usage) and its cost to a Usage
+ * Cache and reasoning counts are only set when the provider reported them.
+ */
+export function toUsage(usage: InvokeResult['usage'], totalCostUSD: number): Usage {
+  return {
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    totalCostUSD,
+    ...(usage?.cache_read_input_tokens !== undefined && { cacheReadInputTokens: usage.cache_read_input_tokens }),
+    ...(usage?.cache_creation_input_tokens !== undefined && { cacheCreationInputTokens: usage.cache_creation_input_tokens }),
+    ...(usage?.reasoning_tokens !== undefined && { reasoningTokens: usage.reasoning_tokens })
+  };
+}
+
+/**
+ * Add a usage to a running total (modifies the total)
+ */
+export function addUsage(total: Usage, usage: Usage): void {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.totalCostUSD += usage.totalCostUSD;
+
+  if (usage.cacheReadInputTokens !== undefined) {
+    total.cacheReadInputTokens = (total.cacheReadInputTokens ?? 0) + usage.cacheReadInputTokens;
+  }
+  if (usage.cacheCreationInputTokens !== undefined) {
+    total.cacheCreationInputTokens = (total.cacheCreationInputTokens ?? 0) + usage.cacheCreationInputTokens;
+  }
+  if (usage.reasoningTokens !== undefined) {
+    total.reasoningTokens = (total.reasoningTokens ?? 0) + usage.reasoningTokens;
+  }
+}
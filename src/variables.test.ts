@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { resolveVariables, formatVariable } from './variables.js';
+
+describe('variables', () => {
+  describe('resolveVariables', () => {
+    it('should apply defaults for missing variables', () => {
+      const { variables, errors } = resolveVariables(
+        [
+          { name: 'tone', type: 'string', required: true, default: 'friendly' },
+          { name: 'limit', type: 'number', required: false, default: 5 }
+        ],
+        { limit: 10 }
+      );
+
+      expect(errors).toEqual([]);
+      expect(variables).toEqual({ tone: 'friendly', limit: 10 });
+    });
+
+    it('should coerce safe values', () => {
+      const { variables, errors } = resolveVariables(
+        [
+          { name: 'count', type: 'number', required: true },
+          { name: 'verbose', type: 'boolean', required: true },
+          { name: 'label', type: 'string', required: true },
+          { name: 'level', type: 'enum', required: true, enum: [1, 2, 3] },
+          { name: 'tags', type: 'array', required: true }
+        ],
+        { count: ' 42.5 ', verbose: 'false', label: 7, level: '2', tags: '["a","b"]' }
+      );
+
+      expect(errors).toEqual([]);
+      expect(variables).toEqual({ count: 42.5, verbose: false, label: '7', level: 2, tags: ['a', 'b'] });
+    });
+
+    it('should report every problem with names and expected types', () => {
+      const circular: any = {};
+      circular.self = circular;
+
+      const { errors, missing } = resolveVariables(
+        [
+          { name: 'task', type: 'string', required: true },
+          { name: 'count', type: 'number', required: true },
+          { name: 'verbose', type: 'Boolean', required: false },
+          { name: 'mode', type: 'enum', required: false, enum: ['fast', 'thorough'] },
+          { name: 'tags', type: 'array', required: false },
+          { name: 'config', type: 'json', required: false },
+          { name: 'name', type: 'string', required: false }
+        ],
+        { count: '12abc', verbose: 'yes', mode: 'slow', tags: 'a,b', config: circular, name: { first: 'Ada' } }
+      );
+
+      expect(missing).toEqual(['task']);
+      expect(errors).toEqual([
+        'Required variable missing: task (string)',
+        'Variable count must be a number, got string "12abc"',
+        'Variable verbose must be a boolean, got string "yes"',
+        'Variable mode must be one of "fast", "thorough", got string "slow"',
+        'Variable tags must be an array, got string "a,b"',
+        'Variable config must be JSON-serializable, got object',
+        'Variable name must be a string, got object'
+      ]);
+    });
+
+    it('should leave null and undeclared variables alone', () => {
+      const { variables, errors } = resolveVariables(
+        [{ name: 'count', type: 'number', required: false }, { name: 'notes', type: 'text', required: false }],
+        { count: null, notes: { any: 'thing' }, extra: 1 }
+      );
+
+      expect(errors).toEqual([]);
+      expect(variables).toEqual({ count: null, notes: { any: 'thing' }, extra: 1 });
+    });
+  });
+
+  describe('formatVariable', () => {
+    it('should render objects and arrays as JSON', () => {
+      expect(formatVariable({ a: 1 })).toBe('{"a":1}');
+      expect(formatVariable([1, 'two'])).toBe('[1,"two"]');
+      expect(formatVariable('text')).toBe('text');
+      expect(formatVariable(3)).toBe('3');
+      expect(formatVariable(false)).toBe('false');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Variables
+ *
+ * Applies manifest variable defaults, checks declared types and coerces
+ * values where it is safe (numeric strings, "true"/"false", JSON arrays).
+ * Types: string, number, boolean, enum, array and json. Other types are not checked.
+ */
+
+import type { VariableDefinition } from './types.js';
+
+/**
+ * Result of resolving runtime variables against the manifest definitions
+ */
+export interface ResolvedVariables {
+  variables: Record<string, any>;
+  errors: string[]; // One message per variable, with its name and expected type
+  missing: string[]; // Names of required variables without a value
+}
+
+const NUMERIC = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * Apply defaults, coerce and validate variables
+ * Never throws - all problems are collected so they can be reported together
+ */
+export function resolveVariables(
+  definitions: VariableDefinition[] = [],
+  values: Record<string, any> = {}
+): ResolvedVariables {
+  const variables = { ...values };
+  const errors: string[] = [];
+  const missing: string[] = [];
+
+  for (const definition of definitions) {
+    const { name } = definition;
+    const type = (definition.type || '').toLowerCase();
+
+    if (variables[name] === undefined && definition.default !== undefined) {
+      variables[name] = definition.default;
+    }
+
+    const value = variables[name];
+    if (value === undefined) {
+      if (definition.required) {
+        missing.push(name);
+        errors.push(`Required variable missing: ${name}${type ? ` (${type})` : ''}`);
+      }
+      continue;
+    }
+
+    // null means "no value" for optional variables and is left as-is
+    if (value === null) continue;
+
+    const result = coerceVariable(value, type, definition);
+    if ('error' in result) {
+      errors.push(`Variable ${name} ${result.error}, got ${describeValue(value)}`);
+    } else {
+      variables[name] = result.value;
+    }
+  }
+
+  return { variables, errors, missing };
+}
+
+/**
+ * Coerce a value to a declared variable type
+ */
+function coerceVariable(value: any, type: string, definition: VariableDefinition): { value: any } | { error: string } {
+  switch (type) {
+    case 'string':
+      if (typeof value === 'string') return { value };
+      if (typeof value === 'number' || typeof value === 'boolean') return { value: String(value) };
+      return { error: 'must be a string' };
+
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) return { value };
+      if (typeof value === 'string' && NUMERIC.test(value.trim())) return { value: Number(value.trim()) };
+      return { error: 'must be a number' };
+
+    case 'boolean':
+      if (typeof value === 'boolean') return { value };
+      if (value === 'true' || value === 'false') return { value: value === 'true' };
+      return { error: 'must be a boolean' };
+
+    case 'enum': {
+      const options = definition.enum || [];
+      // Match by string form so "2" selects the option 2 (and vice versa)
+      const option = options.find(o => o === value) ?? options.find(o => String(o) === String(value));
+      if (option !== undefined) return { value: option };
+      return { error: `must be one of ${options.map(o => JSON.stringify(o)).join(', ')}` };
+    }
+
+    case 'array':
+      if (Array.isArray(value)) return { value };
+      if (typeof value === 'string' && value.trim().startsWith('[')) {
+        try {
+          const parsed = JSON.parse(value);
+          if (Array.isArray(parsed)) return { value: parsed };
+        } catch {
+          // Not JSON - reported below
+        }
+      }
+      return { error: 'must be an array' };
+
+    case 'json':
+      try {
+        if (JSON.stringify(value) !== undefined) return { value };
+      } catch {
+        // Circular or BigInt - reported below
+      }
+      return { error: 'must be JSON-serializable' };
+
+    default:
+      return { value };
+  }
+}
+
+/**
+ * Short description of a value for error messages
+ */
+function describeValue(value: any): string {
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value)}`;
+  if (typeof value === 'object' || typeof value === 'function') return typeof value;
+  return `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Render a variable value into prompt text
+ * Objects and arrays are serialized as JSON instead of [object Object]
+ */
+export function formatVariable(value: any): string {
+  if (typeof value === 'string') return value;
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}